@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "SourcePageMigration" ADD COLUMN     "importCheckpoint" JSONB;
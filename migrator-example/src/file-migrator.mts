@@ -1,6 +1,6 @@
 import { lookup } from 'mime-types'
 import type { Client as NotionClient } from '@notionhq/client'
-import { defaultRetryable, type Retryable } from '@yubrot/notion-flexible-blocks'
+import { createRetryable, type Retryable } from '@yubrot/notion-flexible-blocks'
 import type { PrismaClient } from './prisma/client/index.js'
 
 export class FileMigrator {
@@ -8,7 +8,7 @@ export class FileMigrator {
   private readonly prisma: PrismaClient
   private readonly retryable: Retryable
 
-  constructor(notion: NotionClient, prisma: PrismaClient, retryable: Retryable = defaultRetryable) {
+  constructor(notion: NotionClient, prisma: PrismaClient, retryable: Retryable = createRetryable()) {
     this.notion = notion
     this.prisma = prisma
     this.retryable = retryable
@@ -1,8 +1,14 @@
 import PQueue from 'p-queue'
 import { Client as NotionClient } from '@notionhq/client'
-import { defaultRetryable, getMediaType, toPageUrl, type Retryable } from '@yubrot/notion-flexible-blocks'
+import {
+  createRetryable,
+  getMediaType,
+  toPageUrl,
+  type Checkpoint,
+  type Retryable,
+} from '@yubrot/notion-flexible-blocks'
 import { create, type Context } from '@yubrot/notion-markdown'
-import { PrismaClient, type SourcePageMigration } from './prisma/client/index.js'
+import { Prisma, PrismaClient, type SourcePageMigration } from './prisma/client/index.js'
 import { Set as SourceSet } from './source/set.mts'
 import type * as src from './source/interface.mts'
 import { PageIssuer } from './page-issuer.mts'
@@ -29,7 +35,8 @@ export class Migrator {
       import: true,
       freeze: true,
       testImageFetchable: false,
-      retryable: defaultRetryable,
+      // Throttled with a token bucket shared by all the migrator components
+      retryable: createRetryable(),
       ...options,
     }
     this.pageIssuer = new PageIssuer(this.options.notion, this.prisma, this.options.retryable)
@@ -157,12 +164,22 @@ export class Migrator {
     if (mg.importedAt) return
 
     const contents = await page.contents()
-    await create(this.options.notion, mg.notionPageId, contents, this.#importContext(page))
+    // If the previous import failed halfway, continue it from the checkpoint instead of duplicating blocks
+    await create(this.options.notion, mg.notionPageId, contents, {
+      ...this.#importContext(page),
+      resumeFrom: (mg.importCheckpoint as Checkpoint | null) ?? undefined,
+      onCheckpoint: async checkpoint => {
+        await this.prisma.sourcePageMigration.update({
+          where: { url: page.url },
+          data: { importCheckpoint: checkpoint as unknown as Prisma.InputJsonObject },
+        })
+      },
+    })
 
     mg.importedAt = new Date()
     await this.prisma.sourcePageMigration.update({
       where: { url: page.url },
-      data: { importedAt: mg.importedAt },
+      data: { importedAt: mg.importedAt, importCheckpoint: Prisma.DbNull },
     })
   }
 
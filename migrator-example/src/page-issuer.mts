@@ -1,14 +1,14 @@
 import { Client as NotionClient } from '@notionhq/client'
 import { PrismaClient } from './prisma/client/index.js'
 import { LRUCache } from 'lru-cache'
-import { defaultRetryable, type Retryable } from '@yubrot/notion-flexible-blocks'
+import { createRetryable, type Retryable } from '@yubrot/notion-flexible-blocks'
 
 export class PageIssuer {
   private readonly notion: NotionClient
   private readonly prisma: PrismaClient
   private readonly retryable: Retryable
 
-  constructor(notion: NotionClient, prisma: PrismaClient, retryable: Retryable = defaultRetryable) {
+  constructor(notion: NotionClient, prisma: PrismaClient, retryable: Retryable = createRetryable()) {
     this.notion = notion
     this.prisma = prisma
     this.retryable = retryable
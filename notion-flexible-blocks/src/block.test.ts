@@ -1,8 +1,26 @@
 import type { BlockObjectRequestWithoutChildren } from '@notionhq/client/build/src/api-endpoints.js'
 import type { BlockData, NBlock0, NBlock2 } from './block.js'
 import { describe, it, expect } from 'vitest'
-import { embed, bookmark, image, table, paragraph, columnList, column, maximumDepthToExist, media } from './block.js'
+import {
+  embed,
+  bookmark,
+  image,
+  table,
+  paragraph,
+  columnList,
+  column,
+  maximumDepthToExist,
+  media,
+  code,
+  codeBlocks,
+  toggle,
+  file,
+  heading2,
+  callout,
+  tableOfContents,
+} from './block.js'
 import { text } from './inline.js'
+import { UnsupportedMediaError, UrlTooLongError } from './error.js'
 
 it.skip('static assertions', () => {
   // assert that BlockData contains all the types of NBlock0
@@ -33,6 +51,18 @@ describe('media functions error handling', () => {
     expect(image(invalidContent, () => errorResult)).toBe(errorResult)
   })
 
+  it('passes typed errors to onError callback', () => {
+    const invalidContent = { type: 'external' as const, external: { url: 'https://example.com/file.txt' } }
+    expect(image(invalidContent, e => e)).toMatchObject({
+      name: 'UnsupportedMediaError',
+      message: 'Unsupported file extension',
+      data: 'https://example.com/file.txt',
+    })
+    expect(embed({ url: 'invalid-url' }, e => e)).toBeInstanceOf(UnsupportedMediaError)
+    const longUrl = `https://example.com/${'x'.repeat(2000)}.png`
+    expect(image({ external: { url: longUrl } }, e => e)).toBeInstanceOf(UrlTooLongError)
+  })
+
   it('returns empty array when no onError provided', () => {
     expect(embed({ url: 'invalid-url' })).toEqual([])
     expect(image({ type: 'external', external: { url: 'https://example.com/file.txt' } })).toEqual([])
@@ -58,3 +88,66 @@ describe('media functions error handling', () => {
     expect(result).toEqual(image({ type: 'external', external: { url: 'https://example.com/PHOTO.JPG' } }))
   })
 })
+
+describe('codeBlocks', () => {
+  const line = 'x'.repeat(999) + '\n'
+  const long = line.repeat(150) // 150,000 characters
+
+  it('keeps short code in a single code block', () => {
+    expect(codeBlocks('const a = 1', 'ts')).toEqual([code('const a = 1', 'ts')])
+  })
+
+  it('splits long code on line boundaries', () => {
+    expect(codeBlocks(long, 'ts')).toEqual([code(line.repeat(100).slice(0, -1), 'ts'), code(line.repeat(50), 'ts')])
+  })
+
+  it('splits a line that is too long', () => {
+    const blocks = codeBlocks('x'.repeat(250000))
+    expect(blocks).toHaveLength(3)
+    expect(blocks[2]).toEqual(code('x'.repeat(50000)))
+  })
+
+  it('puts the overflow in a toggle', () => {
+    const blocks = codeBlocks(long, 'ts', { overflow: { toggle: text('More') } })
+    expect(blocks).toEqual([
+      code(line.repeat(100).slice(0, -1), 'ts'),
+      toggle(text('More'), [code(line.repeat(50), 'ts')]),
+    ])
+  })
+
+  it('attaches a file instead of the overflow', () => {
+    const attachment = { type: 'external' as const, external: { url: 'https://example.com/code.txt' } }
+    const blocks = codeBlocks(long, 'ts', { overflow: { file: attachment } })
+    expect(blocks).toEqual([code(line.repeat(100).slice(0, -1), 'ts'), ...file(attachment)])
+  })
+
+  it('attaches the caption to the first code block', () => {
+    const caption = text('src/index.ts')
+    const blocks = codeBlocks(long, 'ts', { caption })
+    expect(blocks).toEqual([code(line.repeat(100).slice(0, -1), 'ts', { caption }), code(line.repeat(50), 'ts')])
+    expect(blocks[0].data.type == 'code' && blocks[0].data.code.caption).toEqual(caption.map(i => i.data))
+  })
+})
+
+describe('block options', () => {
+  it('sets colors, icons and header flags', () => {
+    expect(paragraph(text('p'), undefined, { color: 'red' }).data).toMatchObject({ paragraph: { color: 'red' } })
+    expect(tableOfContents({ color: 'gray' }).data).toMatchObject({ table_of_contents: { color: 'gray' } })
+    expect(callout(text('c'), [], { icon: { emoji: '💡' }, color: 'blue_background' }).data).toMatchObject({
+      callout: { icon: { emoji: '💡' }, color: 'blue_background' },
+    })
+    expect(table(2, []).data).toMatchObject({ table: { has_column_header: true } })
+    expect(table(2, [], { hasColumnHeader: false, hasRowHeader: true }).data).toMatchObject({
+      table: { has_column_header: false, has_row_header: true },
+    })
+  })
+
+  it('makes headings with children toggleable', () => {
+    expect(heading2(text('h')).data).toMatchObject({ heading_2: { is_toggleable: undefined } })
+    expect(heading2(text('h'), []).data).toMatchObject({ heading_2: { is_toggleable: undefined } })
+    expect(heading2(text('h'), [paragraph(text('p'))]).data).toMatchObject({ heading_2: { is_toggleable: true } })
+    expect(heading2(text('h'), undefined, { isToggleable: true }).data).toMatchObject({
+      heading_2: { is_toggleable: true },
+    })
+  })
+})
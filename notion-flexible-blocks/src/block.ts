@@ -1,6 +1,10 @@
 import type { BlockObjectRequest } from '@notionhq/client/build/src/api-endpoints.js'
 import { type Inline, text } from './inline.js'
 import { supportedLanguage, toEmbeddableUrl } from './util.js'
+import { UnsupportedMediaError, UrlTooLongError, type ValidationError } from './error.js'
+import { MAX_RICH_TEXT_LENGTH, MAX_URL_LENGTH } from './limits.js'
+
+const MAX_CODE_LENGTH = MAX_RICH_TEXT_LENGTH * 1000 // text() splits contents into 1000 characters
 
 // Notion API limits the depth of blocks accepted by the API to 3, which are
 // represented as different types. Define aliases for them.
@@ -57,16 +61,25 @@ export function block<T extends BlockData>(data: T, children?: Block[]): Block &
 
 type BlockDetail<K extends string, T = BlockData> = T extends { type?: K } & Record<K, unknown> ? T[K] : never
 
-export function embed<T = Block[]>(embed: BlockDetail<'embed'>, onError?: () => T): Block[] | T {
-  const url = toEmbeddableUrl(embed.url)
-  if (!url) return onError?.() || []
-  return [block({ object: 'block', type: 'embed', embed: { ...embed, url } })]
+/**
+ * A handler for media content that Notion cannot display. The returned value is used instead of the blocks.
+ */
+export type MediaErrorHandler<T> = (error: ValidationError) => T
+
+export function embed<T = Block[]>(embed: BlockDetail<'embed'>, onError?: MediaErrorHandler<T>): Block[] | T {
+  try {
+    return [block({ object: 'block', type: 'embed', embed: { ...embed, url: normalizeUrl(embed.url) } })]
+  } catch (e) {
+    return handleMediaError(e, onError)
+  }
 }
 
-export function bookmark<T = Block[]>(bookmark: BlockDetail<'bookmark'>, onError?: () => T): Block[] | T {
-  const url = toEmbeddableUrl(bookmark.url)
-  if (!url) return onError?.() || []
-  return [block({ object: 'block', type: 'bookmark', bookmark: { ...bookmark, url } })]
+export function bookmark<T = Block[]>(bookmark: BlockDetail<'bookmark'>, onError?: MediaErrorHandler<T>): Block[] | T {
+  try {
+    return [block({ object: 'block', type: 'bookmark', bookmark: { ...bookmark, url: normalizeUrl(bookmark.url) } })]
+  } catch (e) {
+    return handleMediaError(e, onError)
+  }
 }
 
 const supportedExtensions = (() => {
@@ -100,7 +113,11 @@ export type MediaContent =
   | BlockDetail<'video'>
   | BlockDetail<'file'>
 
-export function media<T = Block[]>(content: MediaContent, preferredType?: MediaType, onError?: () => T): Block[] | T {
+export function media<T = Block[]>(
+  content: MediaContent,
+  preferredType?: MediaType,
+  onError?: MediaErrorHandler<T>,
+): Block[] | T {
   // NOTE: The current implementation does not attempt to determine the appropriate block type for content that is not of the external type.
   const type = 'external' in content ? getMediaType(content.external.url, preferredType) : preferredType
   switch (type) {
@@ -117,88 +134,239 @@ export function media<T = Block[]>(content: MediaContent, preferredType?: MediaT
   }
 }
 
-function normalizeMediaContent(content: MediaContent, extensions: string[]): MediaContent {
+// Media constructors report errors without a path, since the blocks are not in a block tree yet
+function normalizeMediaContent(content: MediaContent, extensions: string[], path: number[] = []): MediaContent {
   if (!content.type && 'external' in content) content = { type: 'external', ...content }
   if (content.type == 'external') {
-    const url = toEmbeddableUrl(content.external.url)
-    if (!url) throw 'Cannot convert URL to embeddable'
-
+    const url = normalizeUrl(content.external.url, path)
     const extension = url.split('?', 2)[0].split('.').slice(-1)[0].toLowerCase()
-    if (!extension || !extensions.includes(extension)) throw 'Unsupported file extension'
+    if (!extension || !extensions.includes(extension)) {
+      throw new UnsupportedMediaError('Unsupported file extension', path, content.external.url)
+    }
 
     return { ...content, external: { ...content.external, url } }
   }
   return content
 }
 
-export function image<T = Block[]>(image: BlockDetail<'image'>, onError?: () => T): Block[] | T {
+function normalizeUrl(url: string, path: number[] = []): string {
+  const ret = toEmbeddableUrl(url)
+  if (!ret) {
+    if (MAX_URL_LENGTH < url.length) throw new UrlTooLongError(url, MAX_URL_LENGTH, path)
+    throw new UnsupportedMediaError('Cannot convert URL to embeddable', path, url)
+  }
+  return ret
+}
+
+/**
+ * Check the media content of a block in the same way as the media constructors, for blocks that are not built by
+ * them, such as fetched blocks.
+ * @param path - The path of the block, which the error is reported with.
+ */
+export function validateMedia(data: BlockData, path: number[]): UnsupportedMediaError | undefined {
+  try {
+    switch (data.type) {
+      case 'embed':
+        normalizeUrl(data.embed.url, path)
+        break
+      case 'bookmark':
+        normalizeUrl(data.bookmark.url, path)
+        break
+      case 'image':
+        normalizeMediaContent(data.image, supportedExtensions.image, path)
+        break
+      case 'video':
+        normalizeMediaContent(data.video, supportedExtensions.video, path)
+        break
+      case 'pdf':
+        normalizeMediaContent(data.pdf, supportedExtensions.pdf, path)
+        break
+      case 'audio':
+        normalizeMediaContent(data.audio, supportedExtensions.audio, path)
+        break
+      case 'file':
+        normalizeMediaContent(data.file, supportedExtensions.file, path)
+        break
+    }
+  } catch (e) {
+    if (e instanceof UnsupportedMediaError) return e
+    // Too long URLs are reported by the validation of URLs
+    if (!(e instanceof UrlTooLongError)) throw e
+  }
+  return undefined
+}
+
+function handleMediaError<T>(e: unknown, onError?: MediaErrorHandler<T>): Block[] | T {
+  if (!(e instanceof UnsupportedMediaError || e instanceof UrlTooLongError)) throw e
+  return onError?.(e) || []
+}
+
+export function image<T = Block[]>(image: BlockDetail<'image'>, onError?: MediaErrorHandler<T>): Block[] | T {
   try {
     return [block({ object: 'block', type: 'image', image: normalizeMediaContent(image, supportedExtensions.image) })]
-  } catch {
-    return onError?.() || []
+  } catch (e) {
+    return handleMediaError(e, onError)
   }
 }
 
-export function video<T = Block[]>(video: BlockDetail<'video'>, onError?: () => T): Block[] | T {
+export function video<T = Block[]>(video: BlockDetail<'video'>, onError?: MediaErrorHandler<T>): Block[] | T {
   try {
     return [block({ object: 'block', type: 'video', video: normalizeMediaContent(video, supportedExtensions.video) })]
-  } catch {
-    return onError?.() || []
+  } catch (e) {
+    return handleMediaError(e, onError)
   }
 }
 
-export function pdf<T = Block[]>(pdf: BlockDetail<'pdf'>, onError?: () => T): Block[] | T {
+export function pdf<T = Block[]>(pdf: BlockDetail<'pdf'>, onError?: MediaErrorHandler<T>): Block[] | T {
   try {
     return [block({ object: 'block', type: 'pdf', pdf: normalizeMediaContent(pdf, supportedExtensions.pdf) })]
-  } catch {
-    return onError?.() || []
+  } catch (e) {
+    return handleMediaError(e, onError)
   }
 }
 
-export function audio<T = Block[]>(audio: BlockDetail<'audio'>, onError?: () => T): Block[] | T {
+export function audio<T = Block[]>(audio: BlockDetail<'audio'>, onError?: MediaErrorHandler<T>): Block[] | T {
   try {
     return [block({ object: 'block', type: 'audio', audio: normalizeMediaContent(audio, supportedExtensions.audio) })]
-  } catch {
-    return onError?.() || []
+  } catch (e) {
+    return handleMediaError(e, onError)
   }
 }
 
-export function file<T = Block[]>(file: BlockDetail<'file'>, onError?: () => T): Block[] | T {
+export function file<T = Block[]>(file: BlockDetail<'file'>, onError?: MediaErrorHandler<T>): Block[] | T {
   try {
     return [block({ object: 'block', type: 'file', file: normalizeMediaContent(file, supportedExtensions.file) })]
-  } catch {
-    return onError?.() || []
+  } catch (e) {
+    return handleMediaError(e, onError)
   }
 }
 
-export function code(code: string, lang?: string | null): Block {
+export interface CodeOptions {
+  /**
+   * A caption such as the file name of the code.
+   */
+  caption?: Inline[]
+}
+
+// NOTE: Too much characters cause error. Use codeBlocks to split long code.
+export function code(code: string, lang?: string | null, options?: CodeOptions): Block {
   return block({
     object: 'block',
     type: 'code',
     code: {
       language: supportedLanguage(lang) || 'plain text',
-      // FIXME: too much characters cause error
       rich_text: text(code).map(i => i.data),
+      caption: options?.caption?.map(i => i.data),
     },
   })
 }
 
-// TODO: type: 'equation'
+export interface CodeBlocksOptions extends CodeOptions {
+  /**
+   * How to handle the code that does not fit in a single code block.
+   * - `'split'` (default): Split into consecutive code blocks.
+   * - `{ toggle }`: Put the overflowed code blocks in a toggle with the given title.
+   * - `{ file }`: Truncate the code block and attach the given file (that is expected to have the whole code).
+   */
+  overflow?: 'split' | { toggle: Inline[] } | { file: BlockDetail<'file'> }
+}
+
+/**
+ * Create code blocks respecting the limits of Notion API. Code that does not fit in a single code block is split on
+ * line boundaries. The caption is attached to the first code block.
+ */
+export function codeBlocks(content: string, lang?: string | null, options?: CodeBlocksOptions): Block[] {
+  const chunks = splitCode(content, MAX_CODE_LENGTH)
+  const [head, ...rest] = chunks.map((chunk, i) =>
+    code(chunk, lang, { caption: i == 0 ? options?.caption : undefined }),
+  )
+  const overflow = options?.overflow ?? 'split'
+  if (!rest.length || overflow == 'split') return [head, ...rest]
+  if ('toggle' in overflow) return [head, toggle(overflow.toggle, rest)]
+  return [head, ...file(overflow.file)]
+}
+
+function splitCode(content: string, maxLength: number): string[] {
+  const chunks: string[] = []
+  let chunk = ''
+  for (let line of content.split(/(?<=\n)/)) {
+    if (maxLength < chunk.length + line.length && chunk) {
+      chunks.push(chunk.replace(/\n$/, ''))
+      chunk = ''
+    }
+    // Lines that are too long are split anyway
+    while (maxLength < line.length) {
+      chunks.push(line.slice(0, maxLength))
+      line = line.slice(maxLength)
+    }
+    chunk += line
+  }
+  chunks.push(chunk)
+  return chunks
+}
+
+export function equationBlock(expression: string): Block {
+  return block({ object: 'block', type: 'equation', equation: { expression } })
+}
 
 export const divider: Block = block({ object: 'block', type: 'divider', divider: {} })
 
-// TODO: type: 'breadcrumb'
-// TODO: type: 'table_of_contents'
-// TODO: type: 'link_to_page'
+export type Color = NonNullable<BlockDetail<'table_of_contents'>['color']>
 
-export function table(width: number, children: TableRowBlock[]): Block {
+export type Icon = NonNullable<BlockDetail<'callout'>['icon']>
+
+export interface BlockOptions {
+  color?: Color
+}
+
+export interface HeadingOptions extends BlockOptions {
+  /**
+   * Whether the heading can be toggled to show its children.
+   * Defaults to true if the heading has children.
+   */
+  isToggleable?: boolean
+}
+
+export interface CalloutOptions extends BlockOptions {
+  icon?: Icon
+}
+
+export interface TableOptions {
+  /**
+   * Defaults to true.
+   */
+  hasColumnHeader?: boolean
+  hasRowHeader?: boolean
+}
+
+// NOTE: Notion does not support colors for breadcrumbs
+export const breadcrumb: Block = block({ object: 'block', type: 'breadcrumb', breadcrumb: {} })
+
+export function tableOfContents(options?: BlockOptions): Block {
+  return block({
+    object: 'block',
+    type: 'table_of_contents',
+    table_of_contents: { color: options?.color ?? 'default' },
+  })
+}
+
+/**
+ * A link to a page or a database.
+ * Notion displays it with the title and the icon of the linked page.
+ */
+export function linkToPage(linkToPage: BlockDetail<'link_to_page'>): Block {
+  return block({ object: 'block', type: 'link_to_page', link_to_page: linkToPage })
+}
+
+export function table(width: number, children: TableRowBlock[], options?: TableOptions): Block {
   return block(
     {
       object: 'block',
       type: 'table',
       table: {
         table_width: width,
-        has_column_header: true,
+        has_column_header: options?.hasColumnHeader ?? true,
+        has_row_header: options?.hasRowHeader,
       },
     },
     children,
@@ -213,58 +381,74 @@ export function tableRow(cells: Inline[][]): TableRowBlock {
   })
 }
 
-// NOTE: The type is supposed to take children, but Notion's UI does not, so
-// this function does not take children as arguments.
-export function heading1(children: Inline[]): Block {
-  return block({ object: 'block', type: 'heading_1', heading_1: { rich_text: children.map(i => i.data) } })
+// NOTE: Headings can have children only if they are toggleable.
+export function heading1(contents: Inline[], children?: Block[], options?: HeadingOptions): Block {
+  return block({ object: 'block', type: 'heading_1', heading_1: headingDetail(contents, children, options) }, children)
 }
 
 // NOTE: ditto
-export function heading2(children: Inline[]): Block {
-  return block({ object: 'block', type: 'heading_2', heading_2: { rich_text: children.map(i => i.data) } })
+export function heading2(contents: Inline[], children?: Block[], options?: HeadingOptions): Block {
+  return block({ object: 'block', type: 'heading_2', heading_2: headingDetail(contents, children, options) }, children)
 }
 
 // NOTE: ditto
-export function heading3(children: Inline[]): Block {
-  return block({ object: 'block', type: 'heading_3', heading_3: { rich_text: children.map(i => i.data) } })
+export function heading3(contents: Inline[], children?: Block[], options?: HeadingOptions): Block {
+  return block({ object: 'block', type: 'heading_3', heading_3: headingDetail(contents, children, options) }, children)
+}
+
+function headingDetail(contents: Inline[], children?: Block[], options?: HeadingOptions) {
+  return {
+    ...richTextDetail(contents, options),
+    is_toggleable: options?.isToggleable ?? (children?.length ? true : undefined),
+  }
 }
 
-export function paragraph(contents: Inline[], children?: Block[]): Block {
-  return block({ object: 'block', type: 'paragraph', paragraph: { rich_text: contents.map(i => i.data) } }, children)
+export function paragraph(contents: Inline[], children?: Block[], options?: BlockOptions): Block {
+  return block({ object: 'block', type: 'paragraph', paragraph: richTextDetail(contents, options) }, children)
 }
 
 export const space: Block = paragraph([])
 
-export function bulletedListItem(contents: Inline[], children?: Block[]): Block {
+export function bulletedListItem(contents: Inline[], children?: Block[], options?: BlockOptions): Block {
   return block(
-    { object: 'block', type: 'bulleted_list_item', bulleted_list_item: { rich_text: contents.map(i => i.data) } },
+    { object: 'block', type: 'bulleted_list_item', bulleted_list_item: richTextDetail(contents, options) },
     children,
   )
 }
 
-export function numberedListItem(contents: Inline[], children?: Block[]): Block {
+export function numberedListItem(contents: Inline[], children?: Block[], options?: BlockOptions): Block {
   return block(
-    { object: 'block', type: 'numbered_list_item', numbered_list_item: { rich_text: contents.map(i => i.data) } },
+    { object: 'block', type: 'numbered_list_item', numbered_list_item: richTextDetail(contents, options) },
     children,
   )
 }
 
-export function quote(contents: Inline[], children?: Block[]): Block {
-  return block({ object: 'block', type: 'quote', quote: { rich_text: contents.map(i => i.data) } }, children)
+export function quote(contents: Inline[], children?: Block[], options?: BlockOptions): Block {
+  return block({ object: 'block', type: 'quote', quote: richTextDetail(contents, options) }, children)
 }
 
-export function toDo(checked: boolean, contents: Inline[], children?: Block[]): Block {
-  return block({ object: 'block', type: 'to_do', to_do: { rich_text: contents.map(i => i.data), checked } }, children)
+export function toDo(checked: boolean, contents: Inline[], children?: Block[], options?: BlockOptions): Block {
+  return block({ object: 'block', type: 'to_do', to_do: { ...richTextDetail(contents, options), checked } }, children)
 }
 
-export function toggle(contents: Inline[], children?: Block[]): Block {
-  return block({ object: 'block', type: 'toggle', toggle: { rich_text: contents.map(i => i.data) } }, children)
+export function toggle(contents: Inline[], children?: Block[], options?: BlockOptions): Block {
+  return block({ object: 'block', type: 'toggle', toggle: richTextDetail(contents, options) }, children)
 }
 
-// TODO: type: 'template'
+/**
+ * A template button that duplicates its children when clicked.
+ * @deprecated Notion no longer allows template blocks to be created through the API since 2023-03-27, and `validate`
+ * reports them. This constructor remains to represent template blocks fetched from existing pages.
+ */
+export function template(label: Inline[], children?: Block[]): Block {
+  return block({ object: 'block', type: 'template', template: { rich_text: label.map(i => i.data) } }, children)
+}
 
-export function callout(contents: Inline[], children?: Block[]): Block {
-  return block({ object: 'block', type: 'callout', callout: { rich_text: contents.map(i => i.data) } }, children)
+export function callout(contents: Inline[], children?: Block[], options?: CalloutOptions): Block {
+  return block(
+    { object: 'block', type: 'callout', callout: { ...richTextDetail(contents, options), icon: options?.icon } },
+    children,
+  )
 }
 
 export function columnList(columns: ColumnBlock[]): Block {
@@ -275,4 +459,25 @@ export function column(children?: Block[]): ColumnBlock {
   return block({ object: 'block', type: 'column', column: {} }, children)
 }
 
-// TODO: type: 'synced_block'
+/**
+ * An original synced block. Its children can be displayed in other places by `syncedBlockReference`.
+ */
+export function syncedBlock(children: Block[]): Block {
+  return block({ object: 'block', type: 'synced_block', synced_block: { synced_from: null } }, children)
+}
+
+/**
+ * A reference to an existing original synced block. The content is synced with the original one.
+ * @param blockId - The block ID of the original synced block
+ */
+export function syncedBlockReference(blockId: string): Block {
+  return block({
+    object: 'block',
+    type: 'synced_block',
+    synced_block: { synced_from: { type: 'block_id', block_id: blockId } },
+  })
+}
+
+function richTextDetail(contents: Inline[], options?: BlockOptions) {
+  return { rich_text: contents.map(i => i.data), color: options?.color }
+}
@@ -0,0 +1,94 @@
+/**
+ * An error for blocks that cannot be created in Notion.
+ */
+export class ValidationError extends Error {
+  /**
+   * The path of the offending block in `toBlocks(fbs)`. Empty if the error is not associated with a block tree.
+   */
+  readonly path: number[]
+  /**
+   * The offending data, such as a block, a rich text array or a URL.
+   */
+  readonly data: unknown
+
+  constructor(message: string, path: number[], data: unknown) {
+    super(path.length ? `The block at [${path.join(', ')}]: ${message}` : message)
+    this.name = 'ValidationError'
+    this.path = path
+    this.data = data
+  }
+}
+
+/**
+ * Several problems found at once. Each of them is in `errors`.
+ */
+export class AggregateValidationError extends ValidationError {
+  readonly errors: ValidationError[]
+
+  constructor(errors: ValidationError[]) {
+    super(`${errors.length} problems found: ${errors.map(e => e.message).join('; ')}`, [], errors)
+    this.name = 'AggregateValidationError'
+    this.errors = errors
+  }
+}
+
+/**
+ * Children that the block cannot have.
+ */
+export class InvalidChildrenError extends ValidationError {
+  constructor(message: string, path: number[], data: unknown) {
+    super(message, path, data)
+    this.name = 'InvalidChildrenError'
+  }
+}
+
+/**
+ * Media content that Notion cannot display, such as a URL with an unsupported file extension.
+ */
+export class UnsupportedMediaError extends ValidationError {
+  constructor(message: string, path: number[], data: unknown) {
+    super(message, path, data)
+    this.name = 'UnsupportedMediaError'
+  }
+}
+
+/**
+ * A URL longer than Notion accepts.
+ */
+export class UrlTooLongError extends ValidationError {
+  constructor(url: string, limit: number, path: number[]) {
+    super(`URL is too long: ${url.length} > ${limit}`, path, url)
+    this.name = 'UrlTooLongError'
+  }
+}
+
+/**
+ * A request limit that cannot be resolved by splitting API calls.
+ */
+export class LimitExceededError extends ValidationError {
+  readonly limit: number
+  readonly actual: number
+
+  constructor(message: string, limit: number, actual: number, path: number[], data: unknown) {
+    super(`${message}: ${actual} > ${limit}`, path, data)
+    this.name = 'LimitExceededError'
+    this.limit = limit
+    this.actual = actual
+  }
+}
+
+/**
+ * A page property value that does not match the database schema.
+ */
+export class InvalidPropertyError extends ValidationError {
+  /**
+   * The name or ID of the property, as it is specified in the request.
+   */
+  readonly property: string
+
+  constructor(message: string, property: string, data: unknown) {
+    super(`The property "${property}": ${message}`, [], data)
+    this.name = 'InvalidPropertyError'
+    this.property = property
+  }
+}
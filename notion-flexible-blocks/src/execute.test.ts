@@ -0,0 +1,96 @@
+import { Client, LogLevel } from '@notionhq/client'
+import { setTimeout } from 'timers/promises'
+import { describe, it, expect } from 'vitest'
+import { type Checkpoint, ExecuteError, execute } from './execute.js'
+import { bulletedListItem, paragraph } from './block.js'
+import { fetch } from './fetch.js'
+import { text } from './inline.js'
+import { plan } from './plan.js'
+import { FakeNotion } from './testing.js'
+
+describe('execute', () => {
+  const node = bulletedListItem
+  const fbs = new Array(30)
+    .fill(null)
+    .map((_, i) =>
+      node(text(`${i}`), [
+        node(text(`${i}-0`), [node(text(`${i}-0-0`), [node(text(`${i}-0-0-0`)), node(text(`${i}-0-0-1`))])]),
+        paragraph(text(`${i}-1`)),
+      ]),
+    )
+
+  const setup = (failAt = Infinity) => {
+    const notion = new FakeNotion()
+    let active = 0
+    let maxActive = 0
+    let appends = 0
+    const client = new Client({
+      logLevel: LogLevel.ERROR,
+      fetch: async (url, init) => {
+        if (init?.method == 'PATCH' && url.endsWith('/children') && ++appends == failAt) {
+          const body = { object: 'error', status: 400, code: 'validation_error', message: 'Injected failure' }
+          return { ok: false, status: 400, headers: {}, text: async () => JSON.stringify(body) }
+        }
+        maxActive = Math.max(maxActive, ++active)
+        await setTimeout(1)
+        const response = await notion.fetch(url, init)
+        --active
+        return response
+      },
+    })
+    return { notion, client, maxActive: () => maxActive }
+  }
+
+  it('executes the plan concurrently', async () => {
+    const sequential = setup()
+    const sequentialPageId = sequential.notion.addRoot()
+    await execute(sequential.client, sequentialPageId, plan(fbs))
+    expect(sequential.maxActive()).toBe(1)
+
+    const concurrent = setup()
+    const concurrentPageId = concurrent.notion.addRoot()
+    await execute(concurrent.client, concurrentPageId, plan(fbs), { concurrency: 4 })
+    expect(concurrent.maxActive()).toBe(4)
+
+    // Blocks are created in the original order
+    expect(await fetch(concurrent.client, concurrentPageId)).toEqual(await fetch(sequential.client, sequentialPageId))
+  })
+
+  it('resumes from a checkpoint', async () => {
+    const expected = setup()
+    const expectedPageId = expected.notion.addRoot()
+    await execute(expected.client, expectedPageId, plan(fbs))
+
+    const { notion, client } = setup(5)
+    const pageId = notion.addRoot()
+    const checkpoints: Checkpoint[] = []
+    const error = await execute(client, pageId, plan(fbs), {
+      concurrency: 2,
+      onCheckpoint: c => void checkpoints.push(c),
+    }).catch((e: unknown) => e)
+    expect(error).toBeInstanceOf(ExecuteError)
+    const { checkpoint } = error as ExecuteError
+    expect(checkpoint.entries).toBe(plan(fbs).length)
+    expect(checkpoint.completed.length).toBeGreaterThanOrEqual(4)
+    expect(checkpoint).toEqual(checkpoints[checkpoints.length - 1])
+
+    await execute(client, pageId, plan(fbs), { resumeFrom: checkpoint })
+    expect(await fetch(client, pageId)).toEqual(await fetch(expected.client, expectedPageId))
+  })
+
+  it('passes checkpoints in order', async () => {
+    const { notion, client } = setup()
+    const pageId = notion.addRoot()
+    const persisted: Checkpoint[] = []
+    await execute(client, pageId, plan(fbs), {
+      concurrency: 4,
+      onCheckpoint: async c => {
+        // Slower persistence of some checkpoints must not reorder them
+        await setTimeout(c.completed.length % 2 ? 5 : 1)
+        persisted.push(c)
+      },
+    })
+    expect(persisted.map(c => c.completed.length)).toEqual(persisted.map((_, i) => i + 1))
+    expect(persisted[persisted.length - 1].completed.length).toBe(plan(fbs).length)
+  })
+})
@@ -1,17 +1,188 @@
 import { type Client } from '@notionhq/client'
-import type { Plan } from './plan.js'
+import type { UpdateBlockParameters } from '@notionhq/client/build/src/api-endpoints.js'
+import type { BlockData } from './block.js'
+import { type Plan, childrenOf } from './plan.js'
+import type { UpdatePlan } from './update.js'
+import { listChildren } from './fetch.js'
 import { defaultRetryable, type Retryable } from './util.js'
 
+export interface ExecuteOptions {
+  /**
+   * Retry Policy. See {@link defaultRetryable} implementation for details.
+   */
+  retryable?: Retryable
+
+  /**
+   * The maximum number of API calls in flight. Plan entries that do not depend on each other are executed
+   * concurrently. Defaults to 1.
+   */
+  concurrency?: number
+
+  /**
+   * A checkpoint of a previous execution of the same plan. Completed plan entries are skipped.
+   */
+  resumeFrom?: Checkpoint
+
+  /**
+   * Called with the latest checkpoint whenever a plan entry is completed, to persist the progress.
+   * Calls are made one at a time in the order of completion, even with `concurrency`.
+   */
+  onCheckpoint?: (checkpoint: Checkpoint) => void | Promise<void>
+
+  /**
+   * If true, the IDs of nested blocks are retrieved after the creation. This involves an additional API call for each
+   * created block with children. Otherwise only the top-level blocks are given their IDs, from the API responses.
+   */
+  resolveIds?: boolean
+}
+
+/**
+ * The progress of an execution. Plan entries are identified by their indices in the plan.
+ */
+export interface Checkpoint {
+  /**
+   * The number of entries in the plan, to detect a checkpoint of a different plan.
+   */
+  entries: number
+
+  /**
+   * Completed plan entries, with the IDs of the blocks appended by them.
+   */
+  completed: { index: number; blockIds: string[] }[]
+}
+
+/**
+ * IDs of the created blocks, in the same tree structure as the blocks that the plan is built from.
+ * `children` is given only if `resolveIds` is true.
+ */
+export interface CreatedBlockIds {
+  id: string
+  children?: CreatedBlockIds[]
+}
+
+/**
+ * An error thrown when an execution fails halfway.
+ * Pass the checkpoint to `resumeFrom` to continue the execution without duplicating blocks.
+ */
+export class ExecuteError extends Error {
+  readonly checkpoint: Checkpoint
+
+  constructor(cause: unknown, checkpoint: Checkpoint) {
+    super(`Execution failed after ${checkpoint.completed.length} of ${checkpoint.entries} API calls: ${cause}`, {
+      cause,
+    })
+    this.name = 'ExecuteError'
+    this.checkpoint = checkpoint
+  }
+}
+
 /**
  * Create Notion blocks from a plan.
+ * @param options - Options, or a Retry Policy for backward compatibility.
  */
 export async function execute(
   client: Client,
   rootBlockId: string,
   plan: Plan,
-  retryable: Retryable = defaultRetryable,
-) {
-  await new Executor(client, rootBlockId, retryable).execute(plan)
+  options: ExecuteOptions | Retryable = {},
+): Promise<CreatedBlockIds[]> {
+  const { retryable = defaultRetryable, ...rest } = typeof options == 'function' ? { retryable: options } : options
+  return await new Executor(client, rootBlockId, { retryable, ...rest }).execute(plan)
+}
+
+/**
+ * Update Notion blocks from an update plan.
+ */
+export async function executeUpdate(client: Client, plan: UpdatePlan, retryable: Retryable = defaultRetryable) {
+  let lastInsertedId: string | undefined
+  for (const op of plan) {
+    switch (op.type) {
+      case 'update':
+        await retryable(() => client.blocks.update(toUpdateParameters(op.blockId, op.data)))
+        break
+      case 'insert': {
+        const after = typeof op.after == 'object' ? lastInsertedId : op.after
+        const ids = await new Executor(client, op.blockId, { retryable, after }).execute(op.plan)
+        lastInsertedId = ids.at(-1)?.id
+        break
+      }
+      case 'delete':
+        await retryable(() => client.blocks.delete({ block_id: op.blockId }))
+        break
+      default:
+        throw new Error(op satisfies never)
+    }
+  }
+}
+
+function toUpdateParameters(blockId: string, data: BlockData): UpdateBlockParameters {
+  // Block requests are (mostly) compatible with block update requests
+  switch (data.type) {
+    case 'embed':
+      return { block_id: blockId, type: 'embed', embed: data.embed }
+    case 'bookmark':
+      return { block_id: blockId, type: 'bookmark', bookmark: data.bookmark }
+    case 'image':
+      return { block_id: blockId, type: 'image', image: data.image }
+    case 'video':
+      return { block_id: blockId, type: 'video', video: data.video }
+    case 'pdf':
+      return { block_id: blockId, type: 'pdf', pdf: data.pdf }
+    case 'file':
+      return { block_id: blockId, type: 'file', file: data.file }
+    case 'audio':
+      return { block_id: blockId, type: 'audio', audio: data.audio }
+    case 'code':
+      return { block_id: blockId, type: 'code', code: data.code }
+    case 'equation':
+      return { block_id: blockId, type: 'equation', equation: data.equation }
+    case 'divider':
+      return { block_id: blockId, type: 'divider', divider: data.divider }
+    case 'breadcrumb':
+      return { block_id: blockId, type: 'breadcrumb', breadcrumb: data.breadcrumb }
+    case 'table_of_contents':
+      return { block_id: blockId, type: 'table_of_contents', table_of_contents: data.table_of_contents }
+    case 'link_to_page':
+      return { block_id: blockId, type: 'link_to_page', link_to_page: data.link_to_page }
+    case 'table_row':
+      return { block_id: blockId, type: 'table_row', table_row: data.table_row }
+    case 'heading_1':
+      return { block_id: blockId, type: 'heading_1', heading_1: data.heading_1 }
+    case 'heading_2':
+      return { block_id: blockId, type: 'heading_2', heading_2: data.heading_2 }
+    case 'heading_3':
+      return { block_id: blockId, type: 'heading_3', heading_3: data.heading_3 }
+    case 'paragraph':
+      return { block_id: blockId, type: 'paragraph', paragraph: data.paragraph }
+    case 'bulleted_list_item':
+      return { block_id: blockId, type: 'bulleted_list_item', bulleted_list_item: data.bulleted_list_item }
+    case 'numbered_list_item':
+      return { block_id: blockId, type: 'numbered_list_item', numbered_list_item: data.numbered_list_item }
+    case 'quote':
+      return { block_id: blockId, type: 'quote', quote: data.quote }
+    case 'to_do':
+      return { block_id: blockId, type: 'to_do', to_do: data.to_do }
+    case 'toggle':
+      return { block_id: blockId, type: 'toggle', toggle: data.toggle }
+    case 'template':
+      return { block_id: blockId, type: 'template', template: data.template }
+    case 'callout':
+      return { block_id: blockId, type: 'callout', callout: data.callout }
+    case 'synced_block':
+      return { block_id: blockId, type: 'synced_block', synced_block: data.synced_block }
+    case 'column':
+      return { block_id: blockId, type: 'column', column: data.column }
+    case 'table': {
+      // table_width cannot be updated
+      const { has_column_header, has_row_header } = data.table
+      return { block_id: blockId, type: 'table', table: { has_column_header, has_row_header } }
+    }
+    case 'column_list':
+    case undefined:
+      throw new Error(`${data.type} cannot be updated`)
+    default:
+      throw new Error(data satisfies never)
+  }
 }
 
 interface BlockNode {
@@ -19,46 +190,164 @@ interface BlockNode {
   children?: BlockNode[]
 }
 
+interface ExecutorOptions extends ExecuteOptions {
+  retryable: Retryable
+  /**
+   * If specified, blocks are inserted after this block instead of being appended to the root block.
+   */
+  after?: string
+}
+
 class Executor {
   private readonly client: Client
   private readonly retryable: Retryable
+  private readonly limit: Limit
   private readonly rootBlock: BlockNode & { children: BlockNode[] }
+  private after?: string
+  private readonly resumeFrom?: Checkpoint
+  private readonly onCheckpoint?: (checkpoint: Checkpoint) => void | Promise<void>
+  private checkpoints: Promise<void>
+  private readonly resolveIds: boolean
+  private entries: number
+  private completed: Checkpoint['completed']
+  private failure?: { error: unknown }
 
-  constructor(client: Client, rootBlockId: string, retryable: Retryable) {
+  constructor(client: Client, rootBlockId: string, options: ExecutorOptions) {
     this.client = client
-    this.retryable = retryable
+    this.retryable = options.retryable
+    this.limit = limit(options.concurrency ?? 1)
     this.rootBlock = { blockId: rootBlockId, children: [] }
+    this.after = options.after
+    this.resumeFrom = options.resumeFrom
+    this.onCheckpoint = options.onCheckpoint
+    this.checkpoints = Promise.resolve()
+    this.resolveIds = options.resolveIds ?? false
+    this.entries = 0
+    this.completed = []
   }
 
-  async execute(plan: Plan) {
-    for (const { path, bors } of plan) {
+  async execute(plan: Plan): Promise<CreatedBlockIds[]> {
+    if (this.resumeFrom && this.resumeFrom.entries != plan.length) {
+      throw new Error(`Checkpoint does not match the plan: ${this.resumeFrom.entries} != ${plan.length} entries`)
+    }
+    this.entries = plan.length
+    const resumed = new Map(this.resumeFrom?.completed.map(c => [c.index, c.blockIds]))
+
+    // Each entry waits for the entries that create its ancestors and the preceding entries of the same parent,
+    // so that the blocks are created in the original order. Since plan is sorted by path length, they always precede.
+    const tasks: Promise<void>[] = []
+    for (const [index, entry] of plan.entries()) {
+      const blockIds = resumed.get(index)
+      if (blockIds) {
+        this.complete(index, entry.path, blockIds)
+        tasks.push(Promise.resolve())
+        continue
+      }
+      const dependencies = tasks.filter((_, i) => isPrefixOf(plan[i].path, entry.path))
+      tasks.push(Promise.all(dependencies).then(() => this.limit(() => this.executeEntry(index, entry))))
+    }
+    await Promise.all(tasks)
+
+    if (this.failure) throw new ExecuteError(this.failure.error, this.checkpoint())
+    if (!this.resolveIds) return this.rootBlock.children.map(({ blockId }) => ({ id: blockId }))
+    return await this.resolve(shapeOf(plan), this.rootBlock)
+  }
+
+  async resolve(shape: Shape, node: BlockNode): Promise<CreatedBlockIds[]> {
+    const children = await this.limit(() => this.children(node))
+    return await Promise.all(
+      shape.children.map(async (s, i) => ({
+        id: children[i].blockId,
+        children: s.children.length ? await this.resolve(s, children[i]) : undefined,
+      })),
+    )
+  }
+
+  async executeEntry(index: number, { path, bors }: Plan[number]) {
+    // Stop starting new API calls once an API call fails
+    if (this.failure) return
+
+    try {
       const blockId = await this.blockId(path)
+      const after = path.length == 0 ? this.after : undefined
       const { results } = await this.retryable(() =>
-        this.client.blocks.children.append({ block_id: blockId, children: bors }),
+        this.client.blocks.children.append({ block_id: blockId, children: bors, after }),
       )
-
-      // Blocks relations are usually retrieved on-demand except for the root block.
-      if (path.length != 0) continue
-      for (const { id } of results) this.rootBlock.children.push({ blockId: id })
+      this.complete(
+        index,
+        path,
+        results.map(r => r.id),
+      )
+      // Checkpoints are passed one at a time so that an older checkpoint never overwrites a newer one
+      const checkpoint = this.checkpoint()
+      this.checkpoints = this.checkpoints.then(() => this.onCheckpoint?.(checkpoint))
+      await this.checkpoints
+    } catch (e) {
+      this.failure ??= { error: e }
     }
   }
 
+  complete(index: number, path: number[], blockIds: string[]) {
+    this.completed.push({ index, blockIds })
+
+    // Blocks relations are usually retrieved on-demand except for the root block.
+    if (path.length != 0) return
+    for (const blockId of blockIds) this.rootBlock.children.push({ blockId })
+    if (this.after && blockIds.length) this.after = blockIds[blockIds.length - 1]
+  }
+
+  checkpoint(): Checkpoint {
+    return { entries: this.entries, completed: [...this.completed].sort((a, b) => a.index - b.index) }
+  }
+
   async blockId(path: number[]) {
     let current: BlockNode = this.rootBlock
-    for (const index of path) {
-      if (!current.children) {
-        current.children = []
-        let cursor: string | undefined
-        do {
-          const { results, next_cursor } = await this.retryable(() =>
-            this.client.blocks.children.list({ block_id: current.blockId, start_cursor: cursor }),
-          )
-          for (const child of results) current.children.push({ blockId: child.id })
-          cursor = next_cursor || undefined
-        } while (cursor)
-      }
-      current = current.children[index]
-    }
+    for (const index of path) current = (await this.children(current))[index]
     return current.blockId
   }
+
+  async children(node: BlockNode): Promise<BlockNode[]> {
+    if (!node.children) {
+      const children = await listChildren(this.client, node.blockId, this.retryable)
+      node.children = children.map(child => ({ blockId: child.id }))
+    }
+    return node.children
+  }
+}
+
+// The tree structure of the blocks that a plan creates
+interface Shape {
+  children: Shape[]
+}
+
+function shapeOf(plan: Plan): Shape {
+  const root: Shape = { children: [] }
+  const fromBor = (bor: Plan[number]['bors'][number]): Shape => ({ children: childrenOf(bor).map(fromBor) })
+  for (const { path, bors } of plan) {
+    let node = root
+    for (const index of path) node = node.children[index]
+    node.children.push(...bors.map(fromBor))
+  }
+  return root
+}
+
+function isPrefixOf(prefix: number[], path: number[]): boolean {
+  return prefix.length <= path.length && prefix.every((index, i) => index == path[i])
+}
+
+type Limit = <T>(action: () => Promise<T>) => Promise<T>
+
+function limit(concurrency: number): Limit {
+  let active = 0
+  const queue: (() => void)[] = []
+  return async action => {
+    while (concurrency <= active) await new Promise<void>(resolve => queue.push(resolve))
+    ++active
+    try {
+      return await action()
+    } finally {
+      --active
+      queue.shift()?.()
+    }
+  }
 }
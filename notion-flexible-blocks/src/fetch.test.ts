@@ -0,0 +1,110 @@
+import type { Client } from '@notionhq/client'
+import { describe, it, expect } from 'vitest'
+import { fetch } from './fetch.js'
+import { mention } from './inline.js'
+
+describe('fetch', () => {
+  const richText = (content: string) => ({
+    type: 'text',
+    text: { content, link: null },
+    annotations: {
+      bold: false,
+      italic: false,
+      strikethrough: false,
+      underline: false,
+      code: false,
+      color: 'default',
+    },
+    plain_text: content,
+    href: null,
+  })
+  const response = (id: string, type: string, detail: object, hasChildren = false) => ({
+    object: 'block',
+    id,
+    type,
+    [type]: detail,
+    has_children: hasChildren,
+    created_time: '2025-01-01T00:00:00.000Z',
+    archived: false,
+  })
+
+  // Children of each block, paginated by 2 blocks
+  const tree: Record<string, object[]> = {
+    root: [
+      response('a', 'bulleted_list_item', { rich_text: [richText('a')], color: 'default' }, true),
+      response('b', 'code', { rich_text: [richText('b')], caption: [], language: 'javascript' }),
+      response('c', 'unsupported', {}),
+    ],
+    a: [
+      response(
+        'a-0',
+        'paragraph',
+        {
+          rich_text: [
+            {
+              ...richText('Page'),
+              type: 'mention',
+              mention: { type: 'page', page: { id: 'f2811268781747febb9689fe95dbe93d' } },
+            },
+          ],
+          color: 'default',
+        },
+        true,
+      ),
+    ],
+    'a-0': [response('a-0-0', 'paragraph', { rich_text: [richText('a-0-0')], color: 'default' })],
+  }
+  const client = {
+    blocks: {
+      children: {
+        list: async ({ block_id, start_cursor }: { block_id: string; start_cursor?: string }) => {
+          const start = Number(start_cursor || 0)
+          const results = tree[block_id].slice(start, start + 2)
+          const hasMore = start + 2 < tree[block_id].length
+          return { results, next_cursor: hasMore ? `${start + 2}` : null, has_more: hasMore }
+        },
+      },
+    },
+  } as unknown as Client
+
+  const annotations = {
+    bold: false,
+    italic: false,
+    strikethrough: false,
+    underline: false,
+    code: false,
+    color: 'default' as const,
+  }
+
+  it('fetches the whole tree', async () => {
+    const result = await fetch(client, 'root')
+    expect(result).toMatchObject([
+      {
+        data: { type: 'bulleted_list_item', bulleted_list_item: { rich_text: [{ text: { content: 'a' } }] } },
+        children: [
+          {
+            data: { paragraph: { rich_text: [{ mention: { page: { id: 'f2811268781747febb9689fe95dbe93d' } } }] } },
+            children: [{ data: { paragraph: { rich_text: [{ text: { content: 'a-0-0' } }] } } }],
+          },
+        ],
+      },
+      { data: { type: 'code', code: { rich_text: [{ text: { content: 'b' } }], language: 'javascript' } } },
+    ])
+    expect(result).toHaveLength(2) // unsupported blocks are skipped
+  })
+
+  it('strips response-only fields', async () => {
+    const result = await fetch(client, 'root')
+    expect(Object.keys(result[0].data).sort()).toEqual(['bulleted_list_item', 'object', 'type'])
+    expect(result[0].children?.[0].data).toEqual({
+      object: 'block',
+      type: 'paragraph',
+      paragraph: { rich_text: [mention('f2811268781747febb9689fe95dbe93d', annotations).data], color: 'default' },
+    })
+  })
+
+  it('respects depth', async () => {
+    const result = await fetch(client, 'root', { depth: 2 })
+    expect(result[0].children?.[0].children).toBeUndefined()
+  })
+})
@@ -0,0 +1,253 @@
+import { isFullBlock, type Client } from '@notionhq/client'
+import type {
+  BlockObjectResponse,
+  PartialBlockObjectResponse,
+  RichTextItemResponse,
+} from '@notionhq/client/build/src/api-endpoints.js'
+import { type Block, type BlockData, block } from './block.js'
+import type { InlineData } from './inline.js'
+import { defaultRetryable, type Retryable } from './util.js'
+
+export interface FetchOptions {
+  /**
+   * The maximum depth of blocks to fetch. `1` fetches only the direct children of the block.
+   * By default, the whole tree is fetched.
+   */
+  depth?: number
+
+  /**
+   * Retry Policy. See {@link defaultRetryable} implementation for details.
+   */
+  retryable?: Retryable
+}
+
+/**
+ * Fetch the children of a block from Notion as a `Block` tree.
+ * Response-only fields are stripped, so that the result can be passed to `create()` as it is.
+ * This function may involve multiple Notion API calls.
+ */
+export async function fetch(client: Client, blockId: string, options?: FetchOptions): Promise<Block[]> {
+  const { depth = Infinity, retryable = defaultRetryable } = options ?? {}
+  return stripIds(await fetchBlocks(client, blockId, depth, retryable))
+}
+
+/**
+ * A `Block` fetched from Notion, with its block ID.
+ */
+export interface FetchedBlock extends Block {
+  id: string
+  children?: FetchedBlock[]
+  /**
+   * True for child pages and child databases. They are fetched as links, but they must be neither deleted nor
+   * re-created, since they are pages in their own right.
+   */
+  fixed?: boolean
+}
+
+export async function fetchBlocks(
+  client: Client,
+  blockId: string,
+  depth: number,
+  retryable: Retryable,
+): Promise<FetchedBlock[]> {
+  if (depth <= 0) return []
+
+  const ret: FetchedBlock[] = []
+  for (const response of await listChildren(client, blockId, retryable)) {
+    if (!isFullBlock(response)) continue
+    const data = fromBlockObjectResponse(response)
+    if (!data) continue
+
+    // Children of synced block references belong to the original synced block, and children of child pages belong to
+    // the pages
+    const isSyncedBlockReference = response.type == 'synced_block' && response.synced_block.synced_from
+    const fixed = response.type == 'child_page' || response.type == 'child_database'
+    const children =
+      response.has_children && !isSyncedBlockReference && !fixed
+        ? await fetchBlocks(client, response.id, depth - 1, retryable)
+        : []
+    ret.push({
+      type: 'block',
+      data,
+      children: children.length ? children : undefined,
+      id: response.id,
+      fixed: fixed || undefined,
+    })
+  }
+  return ret
+}
+
+function stripIds(blocks: FetchedBlock[]): Block[] {
+  return blocks.map(({ data, children }) => block(data, children && stripIds(children)))
+}
+
+/**
+ * List all the children of a block. Pagination is handled internally.
+ */
+export async function listChildren(
+  client: Client,
+  blockId: string,
+  retryable: Retryable = defaultRetryable,
+): Promise<(BlockObjectResponse | PartialBlockObjectResponse)[]> {
+  const ret: (BlockObjectResponse | PartialBlockObjectResponse)[] = []
+  let cursor: string | undefined
+  do {
+    const { results, next_cursor } = await retryable(() =>
+      client.blocks.children.list({ block_id: blockId, start_cursor: cursor }),
+    )
+    ret.push(...results)
+    cursor = next_cursor || undefined
+  } while (cursor)
+  return ret
+}
+
+/**
+ * Convert a block object response into a `BlockData`. Returns null if the block cannot be created through the API.
+ */
+export function fromBlockObjectResponse(response: BlockObjectResponse): BlockData | null {
+  const b = { object: 'block' } as const
+  switch (response.type) {
+    case 'paragraph':
+      return { ...b, type: response.type, paragraph: withRichText(response.paragraph) }
+    case 'heading_1':
+      return { ...b, type: response.type, heading_1: withRichText(response.heading_1) }
+    case 'heading_2':
+      return { ...b, type: response.type, heading_2: withRichText(response.heading_2) }
+    case 'heading_3':
+      return { ...b, type: response.type, heading_3: withRichText(response.heading_3) }
+    case 'bulleted_list_item':
+      return { ...b, type: response.type, bulleted_list_item: withRichText(response.bulleted_list_item) }
+    case 'numbered_list_item':
+      return { ...b, type: response.type, numbered_list_item: withRichText(response.numbered_list_item) }
+    case 'quote':
+      return { ...b, type: response.type, quote: withRichText(response.quote) }
+    case 'to_do':
+      return { ...b, type: response.type, to_do: withRichText(response.to_do) }
+    case 'toggle':
+      return { ...b, type: response.type, toggle: withRichText(response.toggle) }
+    case 'template':
+      return { ...b, type: response.type, template: withRichText(response.template) }
+    case 'callout': {
+      const { icon, ...callout } = withRichText(response.callout)
+      // Notion-hosted icons cannot be specified through the API
+      return {
+        ...b,
+        type: response.type,
+        callout: icon?.type == 'file' ? callout : { ...callout, icon: icon ?? undefined },
+      }
+    }
+    case 'synced_block':
+      return { ...b, type: response.type, synced_block: response.synced_block }
+    case 'equation':
+      return { ...b, type: response.type, equation: response.equation }
+    case 'code':
+      return { ...b, type: response.type, code: withCaption(withRichText(response.code)) }
+    case 'divider':
+      return { ...b, type: response.type, divider: {} }
+    case 'breadcrumb':
+      return { ...b, type: response.type, breadcrumb: {} }
+    case 'table_of_contents':
+      return { ...b, type: response.type, table_of_contents: response.table_of_contents }
+    case 'column_list':
+      return { ...b, type: response.type, column_list: {} }
+    case 'column':
+      return { ...b, type: response.type, column: response.column }
+    case 'link_to_page':
+      return { ...b, type: response.type, link_to_page: response.link_to_page }
+    case 'table':
+      return { ...b, type: response.type, table: response.table }
+    case 'table_row':
+      return { ...b, type: response.type, table_row: { cells: response.table_row.cells.map(toInlineDataList) } }
+    case 'embed':
+      return { ...b, type: response.type, embed: withCaption(response.embed) }
+    case 'bookmark':
+      return { ...b, type: response.type, bookmark: withCaption(response.bookmark) }
+    case 'image':
+      return { ...b, type: response.type, image: toMediaContent(response.image) }
+    case 'video':
+      return { ...b, type: response.type, video: toMediaContent(response.video) }
+    case 'pdf':
+      return { ...b, type: response.type, pdf: toMediaContent(response.pdf) }
+    case 'audio':
+      return { ...b, type: response.type, audio: toMediaContent(response.audio) }
+    case 'file':
+      return { ...b, type: response.type, file: { ...toMediaContent(response.file), name: response.file.name } }
+    case 'link_preview':
+      return { ...b, type: 'bookmark', bookmark: { url: response.link_preview.url } }
+    case 'child_page':
+      return { ...b, type: 'link_to_page', link_to_page: { type: 'page_id', page_id: response.id } }
+    case 'child_database':
+      return { ...b, type: 'link_to_page', link_to_page: { type: 'database_id', database_id: response.id } }
+    case 'unsupported':
+      return null
+    default:
+      throw new Error(response satisfies never)
+  }
+}
+
+/**
+ * Convert a rich text item response into an `InlineData`.
+ */
+export function toInlineData(item: RichTextItemResponse): InlineData {
+  const { annotations } = item
+  switch (item.type) {
+    case 'text':
+      return { type: 'text', text: item.text, annotations }
+    case 'equation':
+      return { type: 'equation', equation: item.equation, annotations }
+    case 'mention': {
+      const m = item.mention
+      switch (m.type) {
+        case 'page':
+          return { type: 'mention', mention: { page: m.page }, annotations }
+        case 'database':
+          return { type: 'mention', mention: { database: m.database }, annotations }
+        case 'user':
+          return { type: 'mention', mention: { user: { id: m.user.id } }, annotations }
+        case 'date':
+          return { type: 'mention', mention: { date: m.date }, annotations }
+        case 'template_mention':
+          return { type: 'mention', mention: { template_mention: m.template_mention }, annotations }
+        case 'custom_emoji':
+          return { type: 'mention', mention: { custom_emoji: { id: m.custom_emoji.id } }, annotations }
+        default:
+          // Link mentions cannot be created through the API, so we use links instead
+          return {
+            type: 'text',
+            text: { content: item.plain_text, link: item.href ? { url: item.href } : null },
+            annotations,
+          }
+      }
+    }
+    default:
+      throw new Error(item satisfies never)
+  }
+}
+
+function toInlineDataList(items: RichTextItemResponse[]): InlineData[] {
+  return items.map(toInlineData)
+}
+
+function withRichText<T extends { rich_text: RichTextItemResponse[] }>(
+  detail: T,
+): Omit<T, 'rich_text'> & { rich_text: InlineData[] } {
+  return { ...detail, rich_text: toInlineDataList(detail.rich_text) }
+}
+
+function withCaption<T extends { caption: RichTextItemResponse[] }>(
+  detail: T,
+): Omit<T, 'caption'> & { caption: InlineData[] } {
+  return { ...detail, caption: toInlineDataList(detail.caption) }
+}
+
+type MediaContentResponse =
+  | { type: 'external'; external: { url: string }; caption: RichTextItemResponse[] }
+  | { type: 'file'; file: { url: string }; caption: RichTextItemResponse[] }
+
+function toMediaContent(content: MediaContentResponse) {
+  const caption = toInlineDataList(content.caption)
+  // NOTE: Notion-hosted files cannot be specified through the API. We refer to them as external files, but be careful
+  // that the URLs of Notion-hosted files expire in an hour.
+  const url = content.type == 'external' ? content.external.url : content.file.url
+  return { type: 'external' as const, external: { url }, caption }
+}
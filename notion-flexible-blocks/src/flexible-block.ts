@@ -1,8 +1,6 @@
 import { type Block, paragraph } from './block.js'
 import { type Inline, inline, text } from './inline.js'
-
-// See https://developers.notion.com/reference/request-limits
-const MAX_BLOCKS_LENGTH = 100
+import { MAX_BLOCKS_LENGTH } from './limits.js'
 
 /**
  * FlexibleBlock is an abstract wrapper type for Notion's block type.
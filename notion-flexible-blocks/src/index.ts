@@ -1,8 +1,13 @@
-import type { Client } from '@notionhq/client'
-import { plan } from './plan.js'
-import { execute } from './execute.js'
-import type { FlexibleBlock } from './flexible-block.js'
-import { defaultRetryable, type Retryable } from './util.js'
+import type { Client, CreatePageParameters } from '@notionhq/client'
+import { describeBlocks, plan, type PlanDescription, type PlanOptions } from './plan.js'
+import { type CreatedBlockIds, type ExecuteOptions, execute, executeUpdate } from './execute.js'
+import { fetchBlocks } from './fetch.js'
+import { type UpdatePlan, planUpdate } from './update.js'
+import { type FlexibleBlock, toBlocks } from './flexible-block.js'
+import type { Block } from './block.js'
+import { type PageProperties, validateProperties } from './property.js'
+import { AggregateValidationError } from './error.js'
+import { defaultRetryable, type Retryable, toPageUrl } from './util.js'
 
 export {
   type Block,
@@ -10,6 +15,15 @@ export {
   type ColumnBlock,
   type MediaType,
   type MediaContent,
+  type CodeOptions,
+  type CodeBlocksOptions,
+  type Color,
+  type Icon,
+  type BlockOptions,
+  type HeadingOptions,
+  type CalloutOptions,
+  type TableOptions,
+  type MediaErrorHandler,
   embed,
   bookmark,
   getMediaType,
@@ -20,7 +34,12 @@ export {
   audio,
   file,
   code,
+  codeBlocks,
+  equationBlock,
   divider,
+  breadcrumb,
+  tableOfContents,
+  linkToPage,
   table,
   tableRow,
   heading1,
@@ -33,9 +52,28 @@ export {
   quote,
   toDo,
   toggle,
+  template,
   callout,
+  columnList,
+  column,
+  syncedBlock,
+  syncedBlockReference,
 } from './block.js'
-export { type Inline, text, newline, mention } from './inline.js'
+export {
+  type Inline,
+  type TextColor,
+  type DateMention,
+  text,
+  coloredText,
+  newline,
+  mention,
+  databaseMention,
+  userMention,
+  dateMention,
+  templateMention,
+  linkPreview,
+  equation,
+} from './inline.js'
 export {
   type FlexibleBlock,
   toBlocks,
@@ -44,7 +82,64 @@ export {
   mapLink,
   mapCaption,
 } from './flexible-block.js'
-export { type Retryable, defaultRetryable, toPageUrl, toEmbeddableUrl } from './util.js'
+export {
+  type Retryable,
+  type RetryableOptions,
+  defaultRetryable,
+  createRetryable,
+  toPageUrl,
+  toEmbeddableUrl,
+  type SupportedLanguage,
+  supportedLanguage,
+  guessLanguage,
+} from './util.js'
+export { type FetchOptions, fetch, fromBlockObjectResponse, toInlineData } from './fetch.js'
+export { type UpdatePlan, type UpdateOperation, type PreviousInsert } from './update.js'
+export {
+  type Plan,
+  type PlanDescription,
+  type PlanOptions,
+  type ErrorHandler,
+  plan,
+  describePlan,
+  describeBlocks,
+} from './plan.js'
+export {
+  ValidationError,
+  AggregateValidationError,
+  InvalidChildrenError,
+  UnsupportedMediaError,
+  UrlTooLongError,
+  LimitExceededError,
+  InvalidPropertyError,
+} from './error.js'
+export { validate } from './validate.js'
+export { MAX_EQUATION_LENGTH } from './limits.js'
+export { type PageProperties, type DatabaseSchema, validateProperties } from './property.js'
+export { type ExecuteOptions, type Checkpoint, type CreatedBlockIds, ExecuteError } from './execute.js'
+
+export interface CreateOptions extends ExecuteOptions, Pick<PlanOptions, 'strategy'> {
+  /**
+   * If true, no API calls are made and the description of the plan is returned instead.
+   * Problems found in the blocks are reported in `violations` instead of being thrown.
+   */
+  dryRun?: boolean
+}
+
+/**
+ * A `Block` created in Notion, with its block ID and the IDs of its nested blocks.
+ */
+export interface CreatedBlock extends Block {
+  id: string
+  children?: CreatedBlock[]
+}
+
+/**
+ * A `Block` created in Notion, with its block ID. The IDs of nested blocks are not retrieved.
+ */
+export interface ShallowCreatedBlock extends Block {
+  id: string
+}
 
 /**
  * Create blocks in Notion from the FlexibleBlock list.
@@ -52,13 +147,149 @@ export { type Retryable, defaultRetryable, toPageUrl, toEmbeddableUrl } from './
  * @param client - Notion client
  * @param rootBlockId - The page or block ID to create blocks
  * @param fbs - FlexibleBlock list
- * @param retryable - Retry Policy. See {@link defaultRetryable} implementation for details.
+ * @param options - Options, or a Retry Policy for backward compatibility.
+ * @returns The created blocks, aligned with `toBlocks(fbs)`, or the description of the plan if `options.dryRun` is true.
  */
 export async function create(
+  client: Client,
+  rootBlockId: string,
+  fbs: FlexibleBlock[],
+  options: CreateOptions & { dryRun: true },
+): Promise<PlanDescription>
+export async function create(
+  client: Client,
+  rootBlockId: string,
+  fbs: FlexibleBlock[],
+  options: CreateOptions & { resolveIds: true },
+): Promise<CreatedBlock[]>
+export async function create(
+  client: Client,
+  rootBlockId: string,
+  fbs: FlexibleBlock[],
+  options?: CreateOptions | Retryable,
+): Promise<ShallowCreatedBlock[]>
+export async function create(
+  client: Client,
+  rootBlockId: string,
+  fbs: FlexibleBlock[],
+  options: CreateOptions | Retryable = {},
+): Promise<PlanDescription | ShallowCreatedBlock[]> {
+  const {
+    dryRun = false,
+    strategy,
+    ...executeOptions
+  } = typeof options == 'function' ? { retryable: options } : options
+  const blocks = toBlocks(fbs)
+  if (dryRun) return describeBlocks(blocks, { strategy })
+  return withIds(blocks, await execute(client, rootBlockId, plan(blocks, { strategy }), executeOptions))
+}
+
+// Blocks are given IDs as far as they are resolved
+function withIds(blocks: Block[], ids: CreatedBlockIds[]): ShallowCreatedBlock[] {
+  return blocks.map((block, i) => {
+    const { id, children } = ids[i]
+    return { ...block, id, children: block.children && children ? withIds(block.children, children) : block.children }
+  })
+}
+
+/**
+ * A page to create under a database or a page.
+ */
+export interface PageOptions {
+  parent: { database_id: string } | { page_id: string }
+  /**
+   * Property values of the page. A page under a page has only the `title` property.
+   */
+  properties?: PageProperties
+  icon?: CreatePageParameters['icon']
+  cover?: CreatePageParameters['cover']
+}
+
+export type CreatePageOptions = Omit<CreateOptions, 'dryRun' | 'resumeFrom' | 'onCheckpoint'>
+
+/**
+ * A page created in Notion, with the blocks created in it.
+ */
+export interface CreatedPage<B extends ShallowCreatedBlock = CreatedBlock> {
+  id: string
+  url: string
+  children: B[]
+}
+
+/**
+ * Create a page with blocks in Notion.
+ * The property values are checked against the schema of the parent database, and the blocks are validated, before
+ * the page is created. If the blocks cannot be created, the page is moved to the trash.
+ * This function involves multiple Notion API calls.
+ * @param client - Notion client
+ * @param page - The parent, the properties, the icon and the cover of the page
+ * @param fbs - FlexibleBlock list
+ * @param options - Options
+ * @returns The created page, with the created blocks aligned with `toBlocks(fbs)`.
+ * @throws InvalidPropertyError if a property value does not match the schema, or AggregateValidationError of them if
+ * several property values do not match.
+ */
+export async function createPage(
+  client: Client,
+  page: PageOptions,
+  fbs: FlexibleBlock[],
+  options: CreatePageOptions & { resolveIds: true },
+): Promise<CreatedPage>
+export async function createPage(
+  client: Client,
+  page: PageOptions,
+  fbs: FlexibleBlock[],
+  options?: CreatePageOptions,
+): Promise<CreatedPage<ShallowCreatedBlock>>
+export async function createPage(
+  client: Client,
+  page: PageOptions,
+  fbs: FlexibleBlock[],
+  options: CreatePageOptions = {},
+): Promise<CreatedPage<ShallowCreatedBlock>> {
+  const { strategy, retryable = defaultRetryable, ...executeOptions } = options
+  const { parent, properties = {}, icon, cover } = page
+  const schema =
+    'database_id' in parent
+      ? (await retryable(() => client.databases.retrieve({ database_id: parent.database_id }))).properties
+      : null
+  const errors = validateProperties(schema, properties)
+  if (errors.length) throw errors.length == 1 ? errors[0] : new AggregateValidationError(errors)
+  const blocks = toBlocks(fbs)
+  const p = plan(blocks, { strategy })
+
+  const created = await retryable(() => client.pages.create({ parent, properties, icon, cover }))
+  try {
+    const ids = await execute(client, created.id, p, { retryable, ...executeOptions })
+    const url = 'url' in created ? created.url : toPageUrl(created.id)
+    return { id: created.id, url, children: withIds(blocks, ids) }
+  } catch (e) {
+    // Do not leave a page with partially created blocks
+    await retryable(() => client.pages.update({ page_id: created.id, in_trash: true })).catch(() => undefined)
+    throw e
+  }
+}
+
+/**
+ * Update blocks in Notion to match the FlexibleBlock list.
+ * Existing blocks are compared with the FlexibleBlock list, and only the changed blocks are updated, inserted or
+ * deleted, so that the unchanged blocks keep their IDs (and therefore links and comments to them).
+ * The only exception is the first remaining block of blocks inserted at the beginning, which has to be re-created.
+ * This function may involve multiple Notion API calls.
+ * @param client - Notion client
+ * @param rootBlockId - The page or block ID to update blocks
+ * @param fbs - FlexibleBlock list
+ * @param retryable - Retry Policy. See {@link defaultRetryable} implementation for details.
+ * @returns The executed plan. Insertions with `recreates` re-created an existing block.
+ */
+export async function update(
   client: Client,
   rootBlockId: string,
   fbs: FlexibleBlock[],
   retryable: Retryable = defaultRetryable,
-) {
-  await execute(client, rootBlockId, plan(fbs), retryable)
+): Promise<UpdatePlan> {
+  const existing = await fetchBlocks(client, rootBlockId, Infinity, retryable)
+  const p = planUpdate(rootBlockId, existing, fbs)
+  await executeUpdate(client, p, retryable)
+  return p
 }
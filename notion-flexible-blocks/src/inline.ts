@@ -14,6 +14,10 @@ export interface Inline {
 
 export type InlineData = (BlockObjectRequestWithoutChildren & { type: 'paragraph' })['paragraph']['rich_text'][number]
 
+export type TextColor = NonNullable<NonNullable<InlineData['annotations']>['color']>
+
+export type DateMention = Extract<Extract<InlineData, { type?: 'mention' }>['mention'], { date: unknown }>['date']
+
 // ---------------
 
 export function inline<T extends InlineData>(data: T): Inline & { data: T } {
@@ -36,6 +40,10 @@ export function text(content: string, annotations?: InlineData['annotations']):
 
 export const newline: Inline[] = text('\n')
 
+export function coloredText(content: string, color: TextColor, annotations?: InlineData['annotations']): Inline[] {
+  return text(content, { ...annotations, color })
+}
+
 export function mention(pageId: string, annotations?: InlineData['annotations']): Inline {
   return inline({
     type: 'mention',
@@ -44,4 +52,66 @@ export function mention(pageId: string, annotations?: InlineData['annotations'])
   })
 }
 
-// TODO: type: 'equation'
+export function databaseMention(databaseId: string, annotations?: InlineData['annotations']): Inline {
+  return inline({
+    type: 'mention',
+    mention: { database: { id: databaseId } },
+    annotations,
+  })
+}
+
+export function userMention(userId: string, annotations?: InlineData['annotations']): Inline {
+  return inline({
+    type: 'mention',
+    mention: { user: { id: userId } },
+    annotations,
+  })
+}
+
+/**
+ * A date mention. `start` and `end` are ISO 8601 dates or date-times, such as `2025-01-01` or `2025-01-01T09:00`.
+ * ```ts
+ * dateMention({ start: '2025-01-01', end: '2025-01-03' })
+ * dateMention({ start: '2025-01-01T09:00', time_zone: 'Asia/Tokyo' })
+ * ```
+ */
+export function dateMention(date: DateMention, annotations?: InlineData['annotations']): Inline {
+  return inline({
+    type: 'mention',
+    mention: { date },
+    annotations,
+  })
+}
+
+/**
+ * A template mention, which is replaced with the date or the user when the template is duplicated.
+ */
+export function templateMention(mention: 'today' | 'now' | 'me', annotations?: InlineData['annotations']): Inline {
+  return inline({
+    type: 'mention',
+    mention: {
+      template_mention:
+        mention == 'me'
+          ? { type: 'template_mention_user', template_mention_user: mention }
+          : { type: 'template_mention_date', template_mention_date: mention },
+    },
+    annotations,
+  })
+}
+
+/**
+ * NOTE: Link previews cannot be created through the API, so we use a link to the URL instead
+ */
+export function linkPreview(url: string, annotations?: InlineData['annotations']): Inline[] {
+  return text(url, annotations).map(i =>
+    'text' in i.data ? inline({ ...i.data, text: { ...i.data.text, link: { url } } }) : i,
+  )
+}
+
+export function equation(expression: string, annotations?: InlineData['annotations']): Inline {
+  return inline({
+    type: 'equation',
+    equation: { expression },
+    annotations,
+  })
+}
@@ -0,0 +1,10 @@
+// See https://developers.notion.com/reference/request-limits
+export const MAX_BLOCKS_LENGTH = 100
+export const MAX_NESTING_DEPTH = 2
+export const MAX_BLOCK_ELEMENTS = 1000
+export const MAX_PAYLOAD_SIZE = 500 * 1000
+export const MAX_RICH_TEXT_LENGTH = 100
+export const MAX_TEXT_CONTENT_LENGTH = 2000
+export const MAX_EQUATION_LENGTH = 1000
+export const MAX_URL_LENGTH = 2000
+export const MAX_PAGE_SIZE = 100
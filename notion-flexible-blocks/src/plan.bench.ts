@@ -0,0 +1,24 @@
+import { bench, describe } from 'vitest'
+import { describePlan, plan } from './plan.js'
+import { type Block, bulletedListItem, paragraph } from './block.js'
+import { text } from './inline.js'
+
+// Synthetic trees that resemble imported documents
+const outline = (depth: number, width: number): Block[] =>
+  new Array(width).fill(null).map((_, i) => bulletedListItem(text(`Item ${i}`), depth ? outline(depth - 1, width) : []))
+
+const document = (sections: number): Block[] =>
+  new Array(sections).fill(null).flatMap((_, i) => [paragraph(text(`Section ${i}`)), ...outline(i % 5, 3)])
+
+const trees = {
+  'nested outline (depth=6, width=3)': outline(6, 3),
+  'wide outline (depth=2, width=30)': outline(2, 30),
+  'document (sections=200)': document(200),
+}
+
+for (const [name, blocks] of Object.entries(trees)) {
+  describe(`${name}: ${describePlan(plan(blocks)).calls} calls (greedy: ${describePlan(plan(blocks, { strategy: 'greedy' })).calls})`, () => {
+    bench('optimal', () => void plan(blocks))
+    bench('greedy', () => void plan(blocks, { strategy: 'greedy' }))
+  })
+}
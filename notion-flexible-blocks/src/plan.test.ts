@@ -1,7 +1,17 @@
 import { describe, it, expect } from 'vitest'
-import { plan } from './plan.js'
-import { bulletedListItem } from './block.js'
+import { childrenOf, describeBlocks, describePlan, plan } from './plan.js'
+import {
+  bulletedListItem,
+  code,
+  column,
+  columnList,
+  heading1,
+  paragraph,
+  syncedBlock,
+  syncedBlockReference,
+} from './block.js'
 import { text } from './inline.js'
+import { AggregateValidationError } from './error.js'
 
 describe('plan', () => {
   const node = bulletedListItem
@@ -32,7 +42,7 @@ describe('plan', () => {
         ]),
       ]),
     ]
-    const result = plan(fbs)
+    const result = plan(fbs, { strategy: 'greedy' })
 
     expect(result).toMatchObject([
       {
@@ -96,4 +106,181 @@ describe('plan', () => {
       },
     ])
   })
+
+  it('minimizes the number of API calls', () => {
+    const fbs = [
+      node(text('0'), [
+        node(text('0-0'), [node(text('0-0-0'))]),
+        node(text('0-1'), [
+          node(text('0-1-0'), [node(text('0-1-0-0')), node(text('0-1-0-1'))]),
+          node(text('0-1-1'), [node(text('0-1-1-0')), node(text('0-1-1-1'))]),
+        ]),
+      ]),
+    ]
+    expect(plan(fbs, { strategy: 'greedy' })).toHaveLength(3)
+    expect(plan(fbs)).toMatchObject([
+      {
+        path: [],
+        bors: [matchNode('0', [matchNode('0-0', [matchNode('0-0-0')]), matchNode('0-1')])],
+      },
+      {
+        path: [0, 1],
+        bors: [
+          matchNode('0-1-0', [matchNode('0-1-0-0'), matchNode('0-1-0-1')]),
+          matchNode('0-1-1', [matchNode('0-1-1-0'), matchNode('0-1-1-1')]),
+        ],
+      },
+    ])
+  })
+
+  it('does not make more API calls than the greedy strategy', () => {
+    let seed = 1
+    const random = (n: number) => (seed = (seed * 48271) % 2147483647) % n
+    const tree = (depth: number, width: number): ReturnType<typeof node>[] =>
+      new Array(random(width) + 1).fill(null).map((_, i) => node(text(`${i}`), depth ? tree(depth - 1, width) : []))
+
+    for (let i = 0; i < 20; ++i) {
+      const fbs = i < 10 ? tree(5, 4) : tree(2, 30)
+      const optimal = describePlan(plan(fbs))
+      const greedy = describePlan(plan(fbs, { strategy: 'greedy' }))
+      expect(optimal.violations).toEqual([])
+      expect(greedy.violations).toEqual([])
+      expect(optimal.calls).toBeLessThanOrEqual(greedy.calls)
+    }
+  })
+
+  it('splits requests by block elements and payload size', () => {
+    const large = (i: number) => paragraph(text(`${i}あ`.repeat(50000)))
+    const fbs = [
+      node(text('0'), [large(1), large(2), large(3)]),
+      ...new Array(20).fill(null).map((_, i) => node(text(`${i}`), new Array(99).fill(paragraph(text('p'))))),
+    ]
+    for (const strategy of ['optimal', 'greedy'] as const) {
+      const result = plan(fbs, { strategy })
+      expect(describePlan(result).violations).toEqual([])
+      expect(result.filter(r => r.path.length == 0).flatMap(r => r.bors)).toHaveLength(fbs.length)
+      expect(result.filter(r => r.path[0] == 0).flatMap(r => r.bors)).toHaveLength(
+        3 - childrenOf(result[0].bors[0]).length,
+      )
+    }
+  })
+
+  it('reports blocks that cannot fit in a request', () => {
+    const data = { type: 'text' as const, text: { content: 'あ'.repeat(2000) } }
+    const huge = paragraph(new Array(100).fill({ type: 'inline', data }))
+    expect(() => plan([node(text('0')), node(text('1'), [huge])])).toThrow(
+      'The block at [1, 0]: paragraph is too large to fit in a request',
+    )
+  })
+
+  it('validates the limits of rich text', () => {
+    expect(() => plan([code('x'.repeat(100000))])).not.toThrow()
+    expect(() => plan([code('x'.repeat(100001))])).toThrow('code has too many rich text elements: 101 > 100')
+    const data = { type: 'text' as const, text: { content: 'x'.repeat(2001) } }
+    expect(() => plan([node([{ type: 'inline', data }])])).toThrow('bulleted_list_item has too long text content')
+
+    // Every problem is reported at once
+    const invalid = [code('x'.repeat(100001)), node([{ type: 'inline', data }])]
+    expect(() => plan(invalid)).toThrow(AggregateValidationError)
+    expect(() => plan(invalid)).toThrow(/^2 problems found: The block at \[0\]: .*; The block at \[1\]: /)
+  })
+
+  it('splits requests around column lists', () => {
+    const fbs = [
+      node(text('0'), [
+        columnList([column([node(text('a'), [node(text('a-0'), [node(text('a-0-0'))])])]), column([node(text('b'))])]),
+      ]),
+    ]
+    expect(plan(fbs)).toMatchObject([
+      { path: [], bors: [matchNode('0')] },
+      {
+        path: [0],
+        bors: [
+          {
+            column_list: {
+              children: [{ column: { children: [matchNode('a')] } }, { column: { children: [matchNode('b')] } }],
+            },
+          },
+        ],
+      },
+      { path: [0, 0, 0, 0], bors: [matchNode('a-0', [matchNode('a-0-0')])] },
+    ])
+  })
+
+  it('nests children of toggleable headings', () => {
+    const fbs = [heading1(text('h'), [node(text('0'))])]
+    expect(plan(fbs)).toMatchObject([
+      { path: [], bors: [{ heading_1: { is_toggleable: true, children: [matchNode('0')] } }] },
+    ])
+    expect(() => plan([heading1(text('h'), [node(text('0'))], { isToggleable: false })])).toThrow(
+      'heading_1 cannot have children unless it is toggleable',
+    )
+  })
+
+  it('nests children of synced blocks', () => {
+    const fbs = [syncedBlock([node(text('0'), [node(text('0-0'), [node(text('0-0-0'))])])])]
+    expect(plan(fbs)).toMatchObject([
+      {
+        path: [],
+        bors: [{ synced_block: { synced_from: null, children: [matchNode('0', [matchNode('0-0')])] } }],
+      },
+      { path: [0, 0, 0], bors: [matchNode('0-0-0')] },
+    ])
+
+    const reference = syncedBlockReference('f2811268781747febb9689fe95dbe93d')
+    expect(plan([reference])).toEqual([{ path: [], bors: [reference.data] }])
+    expect(() => plan([{ ...reference, children: [paragraph(text('x'))] }])).toThrow(
+      'synced_block reference cannot have children',
+    )
+  })
+})
+
+describe('describePlan', () => {
+  const node = bulletedListItem
+
+  it('describes API calls of the plan', () => {
+    const fbs = [node(text('0'), [node(text('0-0'), [node(text('0-0-0'), [node(text('0-0-0-0'))])])]), node(text('1'))]
+    const description = describePlan(plan(fbs))
+    expect(description).toMatchObject({
+      calls: 2,
+      depth: 4,
+      requests: [
+        { path: [], blocks: 4, depth: 2 },
+        { path: [0, 0, 0], blocks: 1, depth: 0 },
+      ],
+      violations: [],
+    })
+    expect(description.requests[0].size).toBe(JSON.stringify({ children: plan(fbs)[0].bors }).length)
+    expect(JSON.parse(JSON.stringify(description))).toEqual(description)
+  })
+
+  it('reports limit violations', () => {
+    const bors = plan(new Array(101).fill(null).map((_, i) => node(text(`${i}`))))[0].bors
+    expect(describePlan([{ path: [], bors: [...bors, ...bors] }]).violations).toEqual([
+      'Request 0 (path: []): too many blocks: 200 > 100',
+    ])
+  })
+})
+
+describe('describeBlocks', () => {
+  it('reports every problem in violations instead of throwing', () => {
+    const fbs = [paragraph(text('ok')), code('x'.repeat(100001)), paragraph(new Array(101).fill(text('x')).flat())]
+    expect(() => plan(fbs)).toThrow(AggregateValidationError)
+    expect(describeBlocks(fbs)).toMatchObject({
+      calls: 1,
+      requests: [{ path: [], blocks: 3 }],
+      violations: [
+        'The block at [1]: code has too many rich text elements: 101 > 100',
+        'The block at [2]: paragraph has too many rich text elements: 101 > 100',
+      ],
+    })
+
+    // Blocks that cannot be planned are reported once
+    const large = describeBlocks([paragraph(text('x'.repeat(600 * 1000)))])
+    expect(large).toMatchObject({ calls: 0, requests: [] })
+    expect(large.violations).toEqual([
+      'The block at [0]: paragraph has too many rich text elements: 600 > 100',
+      expect.stringMatching(/^The block at \[0\]: paragraph is too large to fit in a request/),
+    ])
+  })
 })
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest'
+import { type DatabaseSchema, type PageProperties, validateProperties } from './property.js'
+import { InvalidPropertyError } from './error.js'
+import { text } from './inline.js'
+
+describe('validateProperties', () => {
+  const schema = {
+    Name: { id: 'title', name: 'Name', type: 'title', title: {} },
+    Tags: { id: 'a', name: 'Tags', type: 'multi_select', multi_select: { options: [] } },
+    Status: {
+      id: 'b',
+      name: 'Status',
+      type: 'status',
+      status: { options: [{ id: 'c', name: 'Done', color: 'green', description: null }], groups: [] },
+    },
+    Score: { id: 'd', name: 'Score', type: 'number', number: { format: 'number' } },
+    Created: { id: 'e', name: 'Created', type: 'created_time', created_time: {} },
+  } as unknown as DatabaseSchema
+  const title = { title: text('Title').map(c => c.data) }
+
+  it('accepts values matching the schema', () => {
+    const properties: PageProperties = {
+      title,
+      Tags: { multi_select: [{ name: 'adr' }] },
+      b: { status: { name: 'Done' } },
+      Score: { type: 'number', number: null },
+    }
+    expect(validateProperties(schema, properties)).toEqual([])
+    expect(validateProperties(null, { title })).toEqual([])
+  })
+
+  it('reports values that do not match the schema', () => {
+    const properties = {
+      Name: title,
+      Tags: { select: { name: 'adr' } },
+      Status: { status: { name: 'Unknown' } },
+      Score: { number: '1' },
+      Created: { created_time: '2025-01-01' },
+      Owner: { rich_text: [] },
+    } as unknown as PageProperties
+    const errors = validateProperties(schema, properties)
+    expect(errors.every(e => e instanceof InvalidPropertyError)).toBe(true)
+    expect(errors.map(e => e.message)).toEqual([
+      'The property "Tags": Expected a multi_select value, but got a select value',
+      'The property "Status": No such status option: Unknown',
+      'The property "Score": Expected a number',
+      'The property "Created": created_time property cannot be set',
+      'The property "Owner": No such property in the database',
+    ])
+    expect(errors[0]).toMatchObject({ property: 'Tags', path: [], data: properties.Tags })
+
+    expect(validateProperties(null, { Tags: { multi_select: [] } }).map(e => e.message)).toEqual([
+      'The property "Tags": Only the title can be set for a page under a page',
+    ])
+  })
+})
@@ -0,0 +1,92 @@
+import type { CreatePageParameters, GetDatabaseResponse } from '@notionhq/client'
+import { InvalidPropertyError } from './error.js'
+
+export type PageProperties = CreatePageParameters['properties']
+
+export type DatabaseSchema = GetDatabaseResponse['properties']
+
+// Properties computed by Notion
+const READ_ONLY_TYPES = [
+  'formula',
+  'rollup',
+  'unique_id',
+  'created_by',
+  'created_time',
+  'last_edited_by',
+  'last_edited_time',
+]
+
+/**
+ * Check the page property values against the schema of the parent database, without calling any API.
+ * @param schema - The properties of the parent database, or null if the parent is a page.
+ * @returns Errors for each property value that Notion would reject. Empty if the properties can be set.
+ */
+export function validateProperties(schema: DatabaseSchema | null, properties: PageProperties): InvalidPropertyError[] {
+  const errors: InvalidPropertyError[] = []
+  for (const [key, value] of Object.entries(properties)) {
+    const error = (message: string) => errors.push(new InvalidPropertyError(message, key, value))
+    // Pages under a page have only the title property
+    const config = schema
+      ? Object.values(schema).find(c => c.name == key || c.id == key)
+      : key == 'title'
+        ? { type: 'title' }
+        : undefined
+    if (!config) {
+      error(schema ? 'No such property in the database' : 'Only the title can be set for a page under a page')
+      continue
+    }
+    if (READ_ONLY_TYPES.includes(config.type)) {
+      error(`${config.type} property cannot be set`)
+      continue
+    }
+
+    const type = value.type ?? Object.keys(value).find(k => k != 'type')
+    if (type != config.type) {
+      error(`Expected a ${config.type} value, but got ${type ? `a ${type} value` : 'nothing'}`)
+      continue
+    }
+    const message = validatePropertyValue(config.type, Object.entries(value).find(([k]) => k == type)?.[1])
+    if (message) {
+      error(message)
+    } else if ('status' in config && 'status' in value && value.status) {
+      // Unlike select options, status options are not created on demand
+      const { id, name } = value.status
+      if (!config.status.options.some(o => o.id == id || o.name == name)) {
+        error(`No such status option: ${name ?? id}`)
+      }
+    }
+  }
+  return errors
+}
+
+function validatePropertyValue(type: string, value: unknown): string | undefined {
+  const isArray = Array.isArray(value)
+  const isOption = (v: unknown) => v != null && typeof v == 'object' && ('name' in v || 'id' in v)
+  switch (type) {
+    case 'title':
+    case 'rich_text':
+    case 'people':
+    case 'relation':
+    case 'files':
+      return isArray ? undefined : 'Expected an array'
+    case 'multi_select':
+      return isArray && value.every(isOption) ? undefined : 'Expected an array of options with a name or an ID'
+    case 'select':
+    case 'status':
+      return value === null || isOption(value) ? undefined : 'Expected an option with a name or an ID'
+    case 'number':
+      return value === null || typeof value == 'number' ? undefined : 'Expected a number'
+    case 'checkbox':
+      return typeof value == 'boolean' ? undefined : 'Expected a boolean'
+    case 'url':
+    case 'email':
+    case 'phone_number':
+      return value === null || typeof value == 'string' ? undefined : 'Expected a string'
+    case 'date':
+      return value === null || (value != null && typeof value == 'object' && 'start' in value)
+        ? undefined
+        : 'Expected a date with a start'
+    default:
+      return undefined
+  }
+}
@@ -0,0 +1,323 @@
+import { APIErrorCode, APIResponseError } from '@notionhq/client'
+import { describe, it, expect } from 'vitest'
+import { FakeNotion } from './testing.js'
+import {
+  type Block,
+  type NBlock0,
+  bulletedListItem,
+  code,
+  column,
+  columnList,
+  divider,
+  heading1,
+  paragraph,
+  syncedBlock,
+  syncedBlockReference,
+  table,
+  tableRow,
+} from './block.js'
+import { fetch, fetchBlocks } from './fetch.js'
+import {
+  coloredText,
+  databaseMention,
+  dateMention,
+  linkPreview,
+  mention,
+  templateMention,
+  text,
+  userMention,
+} from './inline.js'
+import { describePlan, plan } from './plan.js'
+import { type CreatedBlock, create, createPage, defaultRetryable, toBlocks, update } from './index.js'
+import { AggregateValidationError, InvalidPropertyError } from './error.js'
+
+describe('FakeNotion', () => {
+  const node = bulletedListItem
+  const deep = (depth: number): ReturnType<typeof node> =>
+    depth == 0 ? node(text('leaf')) : node(text(`depth=${depth}`), [deep(depth - 1)])
+  const matchDeep = (depth: number): object => ({
+    data: { bulleted_list_item: { rich_text: [{ text: { content: depth == 0 ? 'leaf' : `depth=${depth}` } }] } },
+    children: depth == 0 ? undefined : [matchDeep(depth - 1)],
+  })
+
+  it('creates blocks end to end', async () => {
+    const notion = new FakeNotion()
+    const pageId = notion.addRoot()
+    const fbs = [
+      heading1(text('Title')),
+      ...new Array(150).fill(null).map((_, i) => paragraph(text(`${i}`))),
+      deep(5),
+      table(2, [tableRow([text('a'), text('b')]), tableRow([text('c'), text('d')])]),
+      code('x'.repeat(5000)),
+      node(text('columns'), [columnList([column([deep(3)]), column([paragraph(text('right'))])])]),
+    ]
+    const created = await create(notion.client(), pageId, fbs, { resolveIds: true })
+    const resolvingCalls = notion.calls.length
+
+    const result = await fetch(notion.client(), pageId)
+    expect(result).toMatchObject(fbs.map(({ data }) => ({ data: { type: data.type } })))
+    expect(result[151]).toMatchObject(matchDeep(5))
+    const appends = notion.calls.filter(c => c.method == 'PATCH')
+    expect(appends).toHaveLength(describePlan(plan(fbs)).calls)
+
+    // create() returns the IDs of all the created blocks with resolveIds
+    const ids = (blocks: CreatedBlock[]): unknown[] => blocks.map(b => [b.id, ids(b.children ?? [])])
+    expect(ids(created)).toEqual(ids(await fetchBlocks(notion.client(), pageId, Infinity, defaultRetryable)))
+    expect(created[0]).toMatchObject(fbs[0])
+
+    // Otherwise only the top-level blocks are given IDs, without retrieving the created blocks
+    const shallowPageId = notion.addRoot()
+    const callsBefore = notion.calls.length
+    const shallow = await create(notion.client(), shallowPageId, fbs)
+    expect(notion.calls.length - callsBefore).toBeLessThan(resolvingCalls)
+    const topLevel = await fetchBlocks(notion.client(), shallowPageId, 1, defaultRetryable)
+    expect(shallow.map(b => b.id)).toEqual(topLevel.map(b => b.id))
+    expect(shallow[151].children).toEqual(toBlocks(fbs)[151].children)
+  })
+
+  it('updates blocks end to end', async () => {
+    const notion = new FakeNotion()
+    const pageId = notion.addRoot()
+    const client = notion.client()
+    const [title] = await create(client, pageId, [heading1(text('Title')), paragraph(text('foo')), node(text('item'))])
+
+    const fbs = [divider, heading1(text('New title')), node(text('item'), [node(text('nested'))])]
+    const executed = await update(client, pageId, fbs)
+    expect(executed.filter(op => op.type == 'insert' && op.recreates)).toMatchObject([{ recreates: title.id }])
+    const expectedPageId = notion.addRoot()
+    await create(client, expectedPageId, fbs)
+    expect(await fetch(client, pageId)).toEqual(await fetch(client, expectedPageId))
+    expect(notion.calls.filter(c => c.method == 'DELETE')).toHaveLength(2) // 'Title' is re-created, 'foo' is deleted
+
+    // Child pages are neither deleted nor re-created
+    const parentId = notion.addRoot()
+    const subPage = await createPage(client, { parent: { page_id: parentId } }, [paragraph(text('content'))])
+    await create(client, parentId, [paragraph(text('foo'))])
+    await update(client, parentId, [divider, paragraph(text('bar'))])
+    expect(await client.pages.retrieve({ page_id: subPage.id })).toMatchObject({ in_trash: false })
+    expect(await fetch(client, subPage.id)).toMatchObject([{ data: { type: 'paragraph' } }])
+    expect((await fetch(client, parentId)).map(b => b.data.type)).toEqual(['link_to_page', 'divider', 'paragraph'])
+
+    // Blocks inserted after a kept block are placed after the re-created block
+    const [x, a, y, b] = [paragraph(text('X')), paragraph(text('A')), paragraph(text('Y')), paragraph(text('B'))]
+    const [orderedPageId, expectedOrderPageId] = [notion.addRoot(), notion.addRoot()]
+    await create(client, orderedPageId, [a, b])
+    await update(client, orderedPageId, [x, a, y, b])
+    await create(client, expectedOrderPageId, [x, a, y, b])
+    expect(await fetch(client, orderedPageId)).toEqual(await fetch(client, expectedOrderPageId))
+  })
+
+  it('syncs blocks across pages', async () => {
+    const notion = new FakeNotion()
+    const client = notion.client()
+    const footer = [paragraph(text('Footer')), node(text('item'), [node(text('nested'))])]
+    const [original] = await create(client, notion.addRoot(), [syncedBlock(footer)])
+
+    const pageId = notion.addRoot()
+    await create(client, pageId, [heading1(text('Title')), syncedBlockReference(original.id)])
+    const [, reference] = await fetch(client, pageId)
+    expect(reference).toEqual(syncedBlockReference(original.id))
+    const children = await fetch(client, (await fetchBlocks(client, pageId, 1, defaultRetryable))[1].id)
+    expect(children).toEqual(await fetch(client, original.id))
+    expect(children).toHaveLength(footer.length)
+
+    await expect(create(client, pageId, [syncedBlockReference(pageId)])).rejects.toMatchObject({
+      cause: { code: APIErrorCode.ValidationError },
+    })
+  })
+
+  it('creates mentions and colored text', async () => {
+    const notion = new FakeNotion()
+    const pageId = notion.addRoot()
+    const inlines = [
+      ...coloredText('red', 'red', { bold: true }),
+      mention('f2811268781747febb9689fe95dbe93d'),
+      databaseMention('f2811268781747febb9689fe95dbe93e'),
+      userMention('f2811268781747febb9689fe95dbe93f'),
+      dateMention({ start: '2025-01-01T09:00', end: '2025-01-03T18:00', time_zone: 'Asia/Tokyo' }),
+      templateMention('today'),
+      templateMention('me'),
+      ...linkPreview('https://example.com/'),
+    ]
+    await create(notion.client(), pageId, [paragraph(inlines)])
+
+    const [{ data }] = await fetch(notion.client(), pageId)
+    expect(data.type == 'paragraph' && data.paragraph.rich_text).toMatchObject(
+      inlines.map(({ data: { annotations, ...rest } }) => ({ ...rest, annotations: { ...annotations } })),
+    )
+  })
+
+  it('enforces request limits', async () => {
+    const notion = new FakeNotion()
+    const pageId = notion.addRoot()
+    const client = notion.client()
+    // Requests are built manually since plan() never exceeds the limits
+    const append = (bors: unknown[]) => client.blocks.children.append({ block_id: pageId, children: bors as NBlock0[] })
+    const expectValidationError = async (promise: Promise<unknown>, message: string) => {
+      const error = await promise.catch((e: unknown) => e)
+      expect(APIResponseError.isAPIResponseError(error) && error.code).toBe(APIErrorCode.ValidationError)
+      expect((error as Error).message).toContain(message)
+    }
+
+    const paragraphs = new Array(101).fill(null).map(() => paragraph(text('p')).data)
+    await expectValidationError(append(paragraphs), 'body.children.length should be ≤ `100`')
+
+    const tooDeep = JSON.parse(JSON.stringify(plan([deep(2)])[0].bors))
+    tooDeep[0].bulleted_list_item.children[0].bulleted_list_item.children[0].bulleted_list_item.children = [
+      paragraph(text('p')).data,
+    ]
+    await expectValidationError(append(tooDeep), 'children should be not present')
+
+    const children = new Array(90).fill(paragraph(text('p')).data)
+    const manyElements = new Array(11).fill({ type: 'toggle', toggle: { rich_text: [], children } })
+    await expectValidationError(append(manyElements), 'body.children should contain ≤ `1000` block elements')
+
+    const large = paragraph(text('あ'.repeat(100000))).data
+    await expectValidationError(append([large, large]), 'body should be ≤ `500000` bytes')
+
+    const longText = { type: 'text' as const, text: { content: 'x'.repeat(2001) } }
+    const longParagraph = { type: 'paragraph' as const, paragraph: { rich_text: [longText] } }
+    await expectValidationError(append([longParagraph]), 'text.content.length should be ≤ `2000`')
+
+    await expect(
+      client.blocks.children.list({ block_id: '00000000-0000-4000-8000-ffffffffffff' }),
+    ).rejects.toMatchObject({ code: APIErrorCode.ObjectNotFound })
+  })
+
+  it('creates large blocks end to end', async () => {
+    const notion = new FakeNotion()
+    const pageId = notion.addRoot()
+    const large = (i: number) => paragraph(text(`${i}あ`.repeat(50000)))
+    const fbs = [
+      node(text('0'), [large(1), large(2), large(3), node(text('0-3'), [large(4)])]),
+      ...new Array(20).fill(null).map((_, i) => node(text(`${i}`), new Array(99).fill(paragraph(text('p'))))),
+    ]
+    await create(notion.client(), pageId, fbs)
+
+    const outline = (blocks: Block[]): unknown[] =>
+      blocks.map(({ data, children }) => [
+        data.type == 'paragraph' && data.paragraph.rich_text[0].type == 'text'
+          ? data.paragraph.rich_text[0].text.content.slice(0, 2)
+          : data.type,
+        outline(children ?? []),
+      ])
+    expect(outline(await fetch(notion.client(), pageId))).toEqual(outline(toBlocks(fbs)))
+  })
+
+  it('creates and updates pages', async () => {
+    const notion = new FakeNotion()
+    const client = notion.client()
+    const databaseId = notion.addDatabase({ Name: { title: {} }, Status: { select: { options: [] } } })
+    const { id: pageId } = await client.pages.create({
+      parent: { database_id: databaseId },
+      properties: { Name: { title: text('Title').map(c => c.data) } },
+      children: [paragraph(text('p')).data as NBlock0],
+    })
+    await client.pages.update({
+      page_id: pageId,
+      properties: { Status: { select: { name: 'Done' } } },
+      icon: { emoji: '📝' },
+    })
+
+    expect(await client.pages.retrieve({ page_id: pageId })).toMatchObject({
+      object: 'page',
+      id: pageId,
+      parent: { database_id: databaseId },
+      properties: {
+        Name: { id: 'title', type: 'title', title: [{ plain_text: 'Title' }] },
+        Status: { type: 'select', select: { name: 'Done' } },
+      },
+      icon: { emoji: '📝' },
+      cover: null,
+    })
+    expect(await fetch(client, pageId)).toHaveLength(1)
+
+    const expectValidationError = (promise: Promise<unknown>, message: string) =>
+      expect(promise).rejects.toMatchObject({ code: APIErrorCode.ValidationError, message })
+    const properties = (properties: object) =>
+      ({ page_id: pageId, properties }) as Parameters<typeof client.pages.update>[0]
+    await expectValidationError(
+      client.pages.update(properties({ Tags: { multi_select: [] } })),
+      'Tags is not a property that exists.',
+    )
+    await expectValidationError(
+      client.pages.update(properties({ Status: { number: 1 } })),
+      'Status is expected to be select.',
+    )
+    await expectValidationError(
+      client.pages.create({ parent: { page_id: notion.addRoot() }, properties: { Status: { select: null } } }),
+      'Status is not a property that exists.',
+    )
+
+    const [blockId] = (await create(client, pageId, [paragraph(text('p'))])).map(b => b.id)
+    await expect(client.pages.retrieve({ page_id: blockId })).rejects.toMatchObject({
+      code: APIErrorCode.ObjectNotFound,
+    })
+  })
+
+  it('creates pages end to end', async () => {
+    const notion = new FakeNotion()
+    const client = notion.client()
+    const databaseId = notion.addDatabase({ Name: { title: {} }, Tags: { multi_select: {} } })
+    const fbs = [heading1(text('Context')), node(text('item'), [deep(3)])]
+    const page = await createPage(
+      client,
+      {
+        parent: { database_id: databaseId },
+        properties: { Name: { title: text('ADR 1').map(c => c.data) }, Tags: { multi_select: [{ name: 'adr' }] } },
+        icon: { emoji: '📝' },
+      },
+      fbs,
+      { resolveIds: true },
+    )
+
+    expect(page.url).toBe(`https://www.notion.so/${page.id.replaceAll('-', '')}`)
+    expect(await client.pages.retrieve({ page_id: page.id })).toMatchObject({
+      parent: { database_id: databaseId },
+      properties: { Name: { title: [{ plain_text: 'ADR 1' }] }, Tags: { multi_select: [{ name: 'adr' }] } },
+      icon: { emoji: '📝' },
+    })
+    const ids = (blocks: CreatedBlock[]): unknown[] => blocks.map(b => [b.id, ids(b.children ?? [])])
+    expect(ids(page.children)).toEqual(ids(await fetchBlocks(client, page.id, Infinity, defaultRetryable)))
+
+    // Properties are checked before the page is created
+    const callsBefore = notion.calls.length
+    const invalid = createPage(
+      client,
+      { parent: { database_id: databaseId }, properties: { Tags: { number: 1 } } },
+      fbs,
+    )
+    await expect(invalid).rejects.toBeInstanceOf(InvalidPropertyError)
+    expect(notion.calls.slice(callsBefore).map(c => c.method)).toEqual(['GET'])
+    const invalids = createPage(
+      client,
+      { parent: { database_id: databaseId }, properties: { Tags: { number: 1 }, Owner: { rich_text: [] } } },
+      fbs,
+    )
+    await expect(invalids).rejects.toBeInstanceOf(AggregateValidationError)
+    await expect(invalids).rejects.toMatchObject({
+      errors: [expect.any(InvalidPropertyError), expect.any(InvalidPropertyError)],
+    })
+
+    // The page is moved to the trash if the blocks cannot be created
+    const parentId = notion.addRoot()
+    const broken = [paragraph(text('p')), syncedBlockReference(parentId)]
+    await expect(createPage(client, { parent: { page_id: parentId } }, broken)).rejects.toThrow()
+    expect(notion.calls.at(-1)).toMatchObject({ method: 'PATCH', body: { in_trash: true } })
+    expect(await fetchBlocks(client, parentId, 1, defaultRetryable)).toEqual([])
+  })
+
+  it('paginates children', async () => {
+    const notion = new FakeNotion()
+    const pageId = notion.addRoot()
+    const client = notion.client()
+    await create(
+      client,
+      pageId,
+      new Array(250).fill(null).map((_, i) => paragraph(text(`${i}`))),
+    )
+
+    expect(await fetch(client, pageId)).toHaveLength(250)
+    expect(notion.calls.filter(c => c.method == 'GET')).toHaveLength(3)
+  })
+})
@@ -0,0 +1,524 @@
+import { APIErrorCode, Client, LogLevel } from '@notionhq/client'
+import type { SupportedFetch, SupportedResponse } from '@notionhq/client/build/src/fetch-types.js'
+import {
+  MAX_BLOCKS_LENGTH,
+  MAX_BLOCK_ELEMENTS,
+  MAX_NESTING_DEPTH,
+  MAX_PAGE_SIZE,
+  MAX_PAYLOAD_SIZE,
+  MAX_RICH_TEXT_LENGTH,
+  MAX_TEXT_CONTENT_LENGTH,
+} from './limits.js'
+
+const CAPTIONED_TYPES = ['code', 'embed', 'bookmark', 'image', 'video', 'pdf', 'file', 'audio']
+const ARRAY_PROPERTY_TYPES = ['title', 'rich_text', 'multi_select', 'people', 'relation', 'files']
+
+// Request bodies are of unknown shapes, and are validated at runtime just like the Notion API does
+type JsonObject = Record<string, unknown>
+
+interface FakeBlock {
+  id: string
+  parentId: string | null
+  type: string
+  detail: JsonObject
+  children: string[]
+  archived: boolean
+  // Properties, icon and cover of root blocks, which are pages. null for other blocks
+  page: FakePage | null
+}
+
+interface FakePage {
+  parent: JsonObject
+  properties: Record<string, FakeProperty>
+  icon: unknown
+  cover: unknown
+}
+
+interface FakeProperty extends JsonObject {
+  id: string
+  type: string
+}
+
+interface FakeDatabase {
+  id: string
+  properties: Record<string, FakeProperty & { name: string }>
+}
+
+// A block object request in a request body, which is validated
+interface BlockRequest {
+  type: string
+  detail: JsonObject
+  children: BlockRequest[]
+}
+
+class FakeAPIError extends Error {
+  readonly status: number
+  readonly code: APIErrorCode
+
+  constructor(status: number, code: APIErrorCode, message: string) {
+    super(message)
+    this.status = status
+    this.code = code
+  }
+}
+
+/**
+ * An in-memory fake of the Notion Blocks API for testing without network access.
+ * Blocks are stored with generated IDs, and the request limits are enforced in the same way as the Notion API.
+ * Root blocks are pages, whose properties, icon and cover can be retrieved and updated through the Pages API.
+ * Pages can also be created under pages and databases, and property values are checked against the database schema.
+ *
+ * ```ts
+ * const notion = new FakeNotion()
+ * const pageId = notion.addRoot()
+ * await create(notion.client(), pageId, fbs)
+ * expect(await fetch(notion.client(), pageId)).toEqual(...)
+ * ```
+ */
+export class FakeNotion {
+  /**
+   * API calls received so far, in order.
+   */
+  readonly calls: { method: string; path: string; body?: unknown }[]
+  private readonly blocks: Map<string, FakeBlock>
+  private readonly databases: Map<string, FakeDatabase>
+  private lastId: number
+
+  constructor() {
+    this.calls = []
+    this.blocks = new Map()
+    this.databases = new Map()
+    this.lastId = 0
+  }
+
+  /**
+   * Add a root block (e.g. a page) that blocks can be appended to.
+   */
+  addRoot(id = this.newId()): string {
+    this.blocks.set(normalizeId(id), {
+      id,
+      parentId: null,
+      type: 'child_page',
+      detail: {},
+      children: [],
+      archived: false,
+      page: {
+        parent: { type: 'workspace', workspace: true },
+        properties: { title: { id: 'title', type: 'title', title: [] } },
+        icon: null,
+        cover: null,
+      },
+    })
+    return id
+  }
+
+  /**
+   * Add a database that pages can be created in.
+   * @param properties - The schema of the database, such as `{ Name: { title: {} }, Tags: { multi_select: {} } }`
+   */
+  addDatabase(properties: Record<string, JsonObject>, id = this.newId()): string {
+    const schema = Object.entries(properties).map(([name, config], i) => {
+      const type = Object.keys(config)[0]
+      // The title property always has the ID `title`
+      return [name, { id: type == 'title' ? 'title' : `p${i}`, name, type, [type]: config[type] }]
+    })
+    this.databases.set(normalizeId(id), { id, properties: Object.fromEntries(schema) })
+    return id
+  }
+
+  /**
+   * Create a Notion client that sends requests to this fake.
+   */
+  client(): Client {
+    return new Client({ fetch: this.fetch, logLevel: LogLevel.ERROR })
+  }
+
+  /**
+   * A `fetch` implementation that can be passed to `new Client({ fetch })`.
+   */
+  readonly fetch: SupportedFetch = async (url, init) => {
+    const { pathname, searchParams } = new URL(url)
+    const method = init?.method ?? 'GET'
+    const body: unknown = typeof init?.body == 'string' ? JSON.parse(init.body) : undefined
+    this.calls.push({ method, path: pathname, body })
+    try {
+      return respond(200, this.route(method, pathname.split('/').slice(2), searchParams, objectOf(body)))
+    } catch (e) {
+      if (!(e instanceof FakeAPIError)) throw e
+      return respond(e.status, { object: 'error', status: e.status, code: e.code, message: e.message })
+    }
+  }
+
+  private route(method: string, path: string[], query: URLSearchParams, body: JsonObject): JsonObject {
+    const [resource, id, sub] = path
+    if (resource == 'blocks' && id && sub == 'children' && path.length == 3) {
+      if (method == 'GET') return this.list(id, query)
+      if (method == 'PATCH') return this.append(id, body)
+    }
+    if (resource == 'blocks' && id && path.length == 2) {
+      if (method == 'GET') return this.toResponse(this.get(id))
+      if (method == 'PATCH') return this.update(id, body)
+      if (method == 'DELETE') return this.delete(id)
+    }
+    if (resource == 'pages' && path.length == 1 && method == 'POST') return this.createPage(body)
+    if (resource == 'databases' && id && path.length == 2 && method == 'GET') return this.toDatabaseResponse(id)
+    if (resource == 'pages' && id && path.length == 2) {
+      if (method == 'GET') return this.toPageResponse(...this.getPage(id))
+      if (method == 'PATCH') return this.updatePage(id, body)
+    }
+    throw new FakeAPIError(400, APIErrorCode.InvalidRequestURL, 'Invalid request URL.')
+  }
+
+  private list(blockId: string, query: URLSearchParams): JsonObject {
+    const children = this.childrenOf(this.get(blockId))
+    const pageSize = Math.min(Number(query.get('page_size') || MAX_PAGE_SIZE), MAX_PAGE_SIZE)
+    const cursor = query.get('start_cursor')
+    const start = cursor ? children.findIndex(b => b.id == cursor) : 0
+    if (start == -1) throw validationError('start_cursor provided is invalid.')
+    const results = children.slice(start, start + pageSize)
+    const next = children[start + pageSize]
+    return listResponse(
+      results.map(b => this.toResponse(b)),
+      next?.id ?? null,
+    )
+  }
+
+  private append(blockId: string, body: JsonObject): JsonObject {
+    const parent = this.getEditable(blockId)
+    const children = parseChildren(body.children, 0, 'body.children')
+    const elements = countElements(children)
+    if (MAX_BLOCK_ELEMENTS < elements) {
+      throw validationError(
+        `body.children should contain ≤ \`${MAX_BLOCK_ELEMENTS}\` block elements, instead was \`${elements}\`.`,
+      )
+    }
+    const size = new TextEncoder().encode(JSON.stringify(body)).length
+    if (MAX_PAYLOAD_SIZE < size) {
+      throw validationError(`body should be ≤ \`${MAX_PAYLOAD_SIZE}\` bytes, instead was \`${size}\`.`)
+    }
+
+    let index = parent.children.length
+    const afterId = stringOf(body.after)
+    if (afterId) {
+      const after = this.childrenOf(parent).find(b => normalizeId(b.id) == normalizeId(afterId))
+      if (!after) throw validationError(`Block ${afterId} is not a child of ${blockId}.`)
+      index = parent.children.indexOf(after.id) + 1
+    }
+    const ids = children.map(child => this.createBlock(parent.id, child))
+    parent.children.splice(index, 0, ...ids)
+    return listResponse(
+      ids.map(id => this.toResponse(this.get(id))),
+      null,
+    )
+  }
+
+  private update(blockId: string, body: JsonObject): JsonObject {
+    const block = this.getEditable(blockId)
+    if (body.archived || body.in_trash) return this.delete(blockId)
+    for (const key of Object.keys(body)) {
+      if (key == 'type' || key == block.type) continue
+      throw validationError(`body.${key} should be not present, because the block type is ${block.type}.`)
+    }
+    const detail = body[block.type]
+    if (isObject(detail)) block.detail = normalizeDetail(block.type, { ...block.detail, ...detail })
+    return this.toResponse(block)
+  }
+
+  private createPage(body: JsonObject): JsonObject {
+    const parent = objectOf(body.parent)
+    const databaseId = stringOf(parent.database_id)
+    const pageId = stringOf(parent.page_id)
+    const database = databaseId ? this.databases.get(normalizeId(databaseId)) : undefined
+    if (databaseId && !database) {
+      throw new FakeAPIError(404, APIErrorCode.ObjectNotFound, `Could not find database with ID: ${databaseId}.`)
+    }
+    if (!database && !pageId) throw validationError('body.parent should be defined, instead was `undefined`.')
+    const parentBlock = database || !pageId ? null : this.getEditable(pageId)
+
+    const schema: FakeDatabase['properties'][string][] = database
+      ? Object.values(database.properties)
+      : [{ id: 'title', name: 'title', type: 'title' }]
+    const page: FakePage = {
+      parent: database ? { type: 'database_id', database_id: database.id } : { type: 'page_id', page_id: pageId },
+      properties: Object.fromEntries(
+        schema.map(({ id, name, type }) => [
+          name,
+          { id, type, [type]: ARRAY_PROPERTY_TYPES.includes(type) ? [] : type == 'checkbox' ? false : null },
+        ]),
+      ),
+      icon: body.icon ?? null,
+      cover: body.cover ?? null,
+    }
+    setProperties(page.properties, objectOf(body.properties))
+
+    const id = this.newId()
+    const parentId = parentBlock?.id ?? null
+    const block: FakeBlock = { id, parentId, type: 'child_page', detail: {}, children: [], archived: false, page }
+    this.blocks.set(normalizeId(id), block)
+    parentBlock?.children.push(id)
+    if (body.children) this.append(id, { children: body.children })
+    return this.toPageResponse(block, page)
+  }
+
+  private updatePage(pageId: string, body: JsonObject): JsonObject {
+    const [block, page] = this.getPage(pageId)
+    setProperties(page.properties, objectOf(body.properties))
+    if (body.icon !== undefined) page.icon = body.icon
+    if (body.cover !== undefined) page.cover = body.cover
+    if (body.archived || body.in_trash) block.archived = true
+    return this.toPageResponse(block, page)
+  }
+
+  private delete(blockId: string): JsonObject {
+    const block = this.getEditable(blockId)
+    block.archived = true
+    return this.toResponse(block)
+  }
+
+  private createBlock(parentId: string, { type, detail, children }: BlockRequest): string {
+    const syncedFrom = detail.synced_from
+    if (type == 'synced_block' && isObject(syncedFrom)) {
+      const originalId = stringOf(syncedFrom.block_id)
+      const original = this.blocks.get(normalizeId(originalId ?? ''))
+      if (original?.type != 'synced_block' || original.detail.synced_from) {
+        throw validationError(`Could not find original synced block with ID: ${originalId}.`)
+      }
+    }
+    const id = this.newId()
+    this.blocks.set(normalizeId(id), {
+      id,
+      parentId,
+      type,
+      detail: normalizeDetail(type, detail),
+      children: [],
+      archived: false,
+      page: null,
+    })
+    this.get(id).children = children.map(child => this.createBlock(id, child))
+    return id
+  }
+
+  private get(blockId: string): FakeBlock {
+    const block = this.blocks.get(normalizeId(blockId))
+    if (!block) {
+      throw new FakeAPIError(404, APIErrorCode.ObjectNotFound, `Could not find block with ID: ${blockId}.`)
+    }
+    return block
+  }
+
+  private getPage(pageId: string): [FakeBlock, FakePage] {
+    const block = this.blocks.get(normalizeId(pageId))
+    if (!block?.page) {
+      throw new FakeAPIError(404, APIErrorCode.ObjectNotFound, `Could not find page with ID: ${pageId}.`)
+    }
+    return [block, block.page]
+  }
+
+  private getEditable(blockId: string): FakeBlock {
+    const block = this.get(blockId)
+    if (block.archived)
+      throw validationError("Can't edit block that is archived. You must unarchive the block before editing.")
+    return block
+  }
+
+  private childrenOf(block: FakeBlock): FakeBlock[] {
+    // Children of synced block references belong to the original synced block
+    const syncedFrom = block.detail.synced_from
+    if (block.type == 'synced_block' && isObject(syncedFrom)) {
+      return this.childrenOf(this.get(stringOf(syncedFrom.block_id) ?? ''))
+    }
+    return block.children.map(id => this.get(id)).filter(b => !b.archived)
+  }
+
+  private toResponse(block: FakeBlock): JsonObject {
+    const time = '2025-01-01T00:00:00.000Z'
+    const user = { object: 'user', id: '00000000-0000-4000-8000-000000000000' }
+    return {
+      object: 'block',
+      id: block.id,
+      parent: block.parentId ? { type: 'block_id', block_id: block.parentId } : { type: 'workspace', workspace: true },
+      created_time: time,
+      last_edited_time: time,
+      created_by: user,
+      last_edited_by: user,
+      has_children: this.childrenOf(block).length != 0,
+      archived: block.archived,
+      in_trash: block.archived,
+      type: block.type,
+      [block.type]: block.detail,
+    }
+  }
+
+  private toDatabaseResponse(databaseId: string): JsonObject {
+    const database = this.databases.get(normalizeId(databaseId))
+    if (!database) {
+      throw new FakeAPIError(404, APIErrorCode.ObjectNotFound, `Could not find database with ID: ${databaseId}.`)
+    }
+    return { object: 'database', id: database.id, properties: database.properties }
+  }
+
+  private toPageResponse(block: FakeBlock, page: FakePage): JsonObject {
+    const time = '2025-01-01T00:00:00.000Z'
+    const user = { object: 'user', id: '00000000-0000-4000-8000-000000000000' }
+    return {
+      object: 'page',
+      id: block.id,
+      created_time: time,
+      last_edited_time: time,
+      created_by: user,
+      last_edited_by: user,
+      archived: block.archived,
+      in_trash: block.archived,
+      ...page,
+      url: `https://www.notion.so/${normalizeId(block.id)}`,
+      public_url: null,
+    }
+  }
+
+  private newId(): string {
+    return `00000000-0000-4000-8000-${(++this.lastId).toString(16).padStart(12, '0')}`
+  }
+}
+
+function parseChildren(children: unknown, depth: number, path: string): BlockRequest[] {
+  if (!Array.isArray(children)) throw validationError(`${path} should be an array, instead was \`${children}\`.`)
+  if (MAX_BLOCKS_LENGTH < children.length) {
+    throw validationError(`${path}.length should be ≤ \`${MAX_BLOCKS_LENGTH}\`, instead was \`${children.length}\`.`)
+  }
+  return children.map((child: unknown, i) => {
+    const type = isObject(child) ? stringOf(child.type) : undefined
+    const detail = isObject(child) && type ? child[type] : undefined
+    if (!type || !isObject(detail)) {
+      throw validationError(`${path}[${i}].${type} should be defined, instead was \`undefined\`.`)
+    }
+    const { children, ...rest } = detail
+    validateRichTexts(rest, `${path}[${i}].${type}`)
+    if (!children) return { type, detail: rest, children: [] }
+    if (MAX_NESTING_DEPTH <= depth) {
+      throw validationError(`${path}[${i}].${type}.children should be not present, instead was \`[...]\`.`)
+    }
+    return { type, detail: rest, children: parseChildren(children, depth + 1, `${path}[${i}].${type}.children`) }
+  })
+}
+
+// Properties can be referred to by their names or IDs, and only the existing properties can be set
+function setProperties(properties: Record<string, FakeProperty>, values: JsonObject) {
+  const updates = Object.entries(values).map(([key, value]) => {
+    const name = Object.keys(properties).find(name => name == key || properties[name].id == key)
+    if (!name) throw validationError(`${key} is not a property that exists.`)
+    const { id, type } = properties[name]
+    const detail = objectOf(value)
+    if ((detail.type ?? Object.keys(detail).find(k => k != 'type')) != type) {
+      throw validationError(`${key} is expected to be ${type}.`)
+    }
+    const richText = type == 'title' || type == 'rich_text' ? arrayOf(detail[type]).map(toRichTextItemResponse) : null
+    return [name, { id, type, [type]: richText ?? detail[type] }]
+  })
+  Object.assign(properties, Object.fromEntries(updates))
+}
+
+function countElements(children: BlockRequest[]): number {
+  return children.reduce((a, child) => a + 1 + countElements(child.children), 0)
+}
+
+function validateRichTexts(detail: JsonObject, path: string) {
+  const richTexts: [string, unknown[]][] = [
+    [`${path}.rich_text`, arrayOf(detail.rich_text)],
+    [`${path}.caption`, arrayOf(detail.caption)],
+    ...arrayOf(detail.cells).map((cell, i): [string, unknown[]] => [`${path}.cells[${i}]`, arrayOf(cell)]),
+  ]
+  for (const [p, richText] of richTexts) {
+    if (MAX_RICH_TEXT_LENGTH < richText.length) {
+      throw validationError(`${p}.length should be ≤ \`${MAX_RICH_TEXT_LENGTH}\`, instead was \`${richText.length}\`.`)
+    }
+    for (const [i, item] of richText.entries()) {
+      const length = stringOf(objectOf(objectOf(item).text).content)?.length ?? 0
+      if (MAX_TEXT_CONTENT_LENGTH < length) {
+        throw validationError(
+          `${p}[${i}].text.content.length should be ≤ \`${MAX_TEXT_CONTENT_LENGTH}\`, instead was \`${length}\`.`,
+        )
+      }
+    }
+  }
+}
+
+// Fill in the fields that Notion adds to responses
+function normalizeDetail(type: string, detail: JsonObject): JsonObject {
+  const ret = { ...detail }
+  if (CAPTIONED_TYPES.includes(type)) ret.caption ??= []
+  if (ret.rich_text && type != 'code') ret.color ??= 'default'
+  if (ret.rich_text) ret.rich_text = arrayOf(ret.rich_text).map(toRichTextItemResponse)
+  if (ret.caption) ret.caption = arrayOf(ret.caption).map(toRichTextItemResponse)
+  if (ret.cells) ret.cells = arrayOf(ret.cells).map(cell => arrayOf(cell).map(toRichTextItemResponse))
+  return ret
+}
+
+function toRichTextItemResponse(value: unknown): JsonObject {
+  const item = objectOf(value)
+  const annotations = {
+    bold: false,
+    italic: false,
+    strikethrough: false,
+    underline: false,
+    code: false,
+    color: 'default',
+    ...objectOf(item.annotations),
+  }
+  switch (item.type ?? 'text') {
+    case 'text': {
+      const { content, link } = objectOf(item.text)
+      return {
+        type: 'text',
+        text: { content, link: link ?? null },
+        annotations,
+        plain_text: content,
+        href: isObject(link) ? (link.url ?? null) : null,
+      }
+    }
+    case 'equation':
+      return {
+        type: 'equation',
+        equation: item.equation,
+        annotations,
+        plain_text: objectOf(item.equation).expression,
+        href: null,
+      }
+    default: {
+      const mention = objectOf(item.mention)
+      const type = Object.keys(mention)[0]
+      return { type: 'mention', mention: { type, ...mention }, annotations, plain_text: '', href: null }
+    }
+  }
+}
+
+function listResponse(results: JsonObject[], nextCursor: string | null): JsonObject {
+  return { object: 'list', results, next_cursor: nextCursor, has_more: nextCursor != null, type: 'block', block: {} }
+}
+
+function validationError(message: string): FakeAPIError {
+  return new FakeAPIError(400, APIErrorCode.ValidationError, message)
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return value != null && typeof value == 'object' && !Array.isArray(value)
+}
+
+function objectOf(value: unknown): JsonObject {
+  return isObject(value) ? value : {}
+}
+
+function arrayOf(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : []
+}
+
+function stringOf(value: unknown): string | undefined {
+  return typeof value == 'string' ? value : undefined
+}
+
+function normalizeId(id: string): string {
+  return id.replaceAll('-', '')
+}
+
+function respond(status: number, body: unknown): SupportedResponse {
+  return { ok: status < 300, status, headers: {}, text: async () => JSON.stringify(body) }
+}
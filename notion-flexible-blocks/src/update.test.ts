@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest'
+import { planUpdate } from './update.js'
+import { type Block, bulletedListItem, divider, heading1, linkToPage, paragraph } from './block.js'
+import type { FetchedBlock } from './fetch.js'
+import { text } from './inline.js'
+import { plan } from './plan.js'
+
+describe('planUpdate', () => {
+  const fetched = (id: string, block: Block, children?: FetchedBlock[]): FetchedBlock => ({ ...block, id, children })
+
+  const existing = [
+    fetched('a', heading1(text('Title'))),
+    fetched('b', paragraph(text('foo'))),
+    fetched('c', bulletedListItem(text('item'), []), [fetched('c-0', bulletedListItem(text('nested')))]),
+  ]
+
+  it('does nothing for unchanged blocks', () => {
+    const fbs = [
+      heading1(text('Title')),
+      paragraph(text('foo')),
+      bulletedListItem(text('item'), [bulletedListItem(text('nested'))]),
+    ]
+    expect(planUpdate('root', existing, fbs)).toEqual([])
+  })
+
+  it('ignores default values and text splits in existing blocks', () => {
+    const response = paragraph([
+      ...text('fo', { bold: false, color: 'default' }),
+      ...text('o', { bold: false, color: 'default' }),
+    ])
+    if (response.data.type == 'paragraph') response.data.paragraph.color = 'default'
+    expect(planUpdate('root', [fetched('b', response)], [paragraph(text('foo'))])).toEqual([])
+  })
+
+  it('updates changed blocks in place', () => {
+    const fbs = [
+      heading1(text('New title')),
+      paragraph(text('foo')),
+      bulletedListItem(text('item'), [bulletedListItem(text('changed'))]),
+    ]
+    expect(planUpdate('root', existing, fbs)).toEqual([
+      { type: 'update', blockId: 'a', data: heading1(text('New title')).data },
+      { type: 'update', blockId: 'c-0', data: bulletedListItem(text('changed')).data },
+    ])
+  })
+
+  it('inserts blocks after the preceding block', () => {
+    const fbs = [heading1(text('Title')), paragraph(text('foo')), divider, paragraph(text('bar')), existing[2]]
+    expect(planUpdate('root', existing, fbs)).toEqual([
+      { type: 'insert', blockId: 'root', after: 'b', plan: plan([divider, paragraph(text('bar'))]) },
+    ])
+  })
+
+  it('inserts blocks at the beginning by re-creating the first block', () => {
+    const fbs = [divider, heading1(text('Title')), paragraph(text('foo')), existing[2]]
+    expect(planUpdate('root', existing, fbs)).toEqual([
+      {
+        type: 'insert',
+        blockId: 'root',
+        after: 'a',
+        plan: plan([divider, heading1(text('Title'))]),
+        recreates: 'a',
+      },
+      { type: 'delete', blockId: 'a' },
+    ])
+  })
+
+  it('inserts blocks after the re-created block', () => {
+    const fbs = [divider, heading1(text('Title')), paragraph(text('bar')), paragraph(text('foo')), existing[2]]
+    expect(planUpdate('root', existing, fbs)).toEqual([
+      {
+        type: 'insert',
+        blockId: 'root',
+        after: 'a',
+        plan: plan([divider, heading1(text('Title'))]),
+        recreates: 'a',
+      },
+      { type: 'insert', blockId: 'root', after: { previousInsert: true }, plan: plan([paragraph(text('bar'))]) },
+      { type: 'delete', blockId: 'a' },
+    ])
+  })
+
+  it('keeps child pages and child databases as they are', () => {
+    const page = { ...fetched('p', linkToPage({ type: 'page_id', page_id: 'p' })), fixed: true }
+    const database = { ...fetched('d', linkToPage({ type: 'database_id', database_id: 'd' })), fixed: true }
+    const fbs = [divider, heading1(text('Title')), paragraph(text('bar'))]
+    expect(planUpdate('root', [page, existing[0], database, existing[1]], fbs)).toEqual([
+      { type: 'insert', blockId: 'root', after: 'p', plan: plan([divider]) },
+      { type: 'update', blockId: 'b', data: paragraph(text('bar')).data },
+    ])
+    expect(planUpdate('root', [page, existing[0]], [page, divider, heading1(text('Title'))])).toEqual([
+      { type: 'insert', blockId: 'root', after: 'p', plan: plan([divider]) },
+    ])
+  })
+
+  it('deletes removed blocks and replaces blocks of different types', () => {
+    const fbs = [divider, bulletedListItem(text('item'), [])]
+    expect(planUpdate('root', existing, fbs)).toEqual([
+      {
+        type: 'insert',
+        blockId: 'root',
+        after: 'c',
+        plan: plan([divider, bulletedListItem(text('item'), [])]),
+        recreates: 'c',
+      },
+      { type: 'delete', blockId: 'a' },
+      { type: 'delete', blockId: 'b' },
+      { type: 'delete', blockId: 'c' },
+    ])
+  })
+})
@@ -0,0 +1,253 @@
+import type { Block, BlockData } from './block.js'
+import type { FetchedBlock } from './fetch.js'
+import { type FlexibleBlock, toBlocks } from './flexible-block.js'
+import { type ErrorHandler, type Plan, plan } from './plan.js'
+
+/**
+ * A list of operations to sync blocks onto existing blocks.
+ * Operations must be executed in order. Deletions come last so that insertions can refer to the deleted blocks.
+ */
+export type UpdatePlan = UpdateOperation[]
+
+export type UpdateOperation =
+  | { type: 'update'; blockId: string; data: BlockData }
+  | {
+      type: 'insert'
+      blockId: string
+      /**
+       * The ID of the block to insert after. `{ previousInsert: true }` refers to the last block created by the
+       * previous insertion, whose ID is known only after it is executed.
+       */
+      after?: string | PreviousInsert
+      plan: Plan
+      /**
+       * The ID of an existing block that is re-created by this insertion. Notion API cannot insert blocks before the
+       * first block, so blocks inserted at the beginning are followed by a copy of the first remaining block, which is
+       * then deleted. The block loses its ID, and therefore links and comments to it.
+       */
+      recreates?: string
+    }
+  | { type: 'delete'; blockId: string }
+
+export interface PreviousInsert {
+  previousInsert: true
+}
+
+/**
+ * Build a plan for API calls that turns the existing blocks into the FlexibleBlocks.
+ * Unchanged blocks are kept as they are, and blocks of the same type are updated in place if possible.
+ * Child pages and child databases are never deleted, updated or re-created, whether or not they are in the
+ * FlexibleBlocks.
+ */
+export function planUpdate(
+  rootBlockId: string,
+  existing: FetchedBlock[],
+  fbs: FlexibleBlock[],
+  onError?: ErrorHandler,
+): UpdatePlan {
+  return new UpdatePlanner(onError).run(rootBlockId, existing, toBlocks(fbs))
+}
+
+type Alignment =
+  | { type: 'keep' | 'update'; prev: FetchedBlock; next: Block }
+  | { type: 'insert'; next: Block }
+  | { type: 'delete'; prev: FetchedBlock }
+  | { type: 'fixed'; prev: FetchedBlock }
+
+class UpdatePlanner {
+  readonly plan: UpdatePlan
+  readonly deletions: UpdatePlan
+  readonly onError?: ErrorHandler
+
+  constructor(onError?: ErrorHandler) {
+    this.plan = []
+    this.deletions = []
+    this.onError = onError
+  }
+
+  run(rootBlockId: string, existing: FetchedBlock[], blocks: Block[]): UpdatePlan {
+    this.visitEach(rootBlockId, existing, blocks)
+    return [...this.plan, ...this.deletions]
+  }
+
+  visitEach(blockId: string, prevs: FetchedBlock[], nexts: Block[]) {
+    const alignments = align(prevs, nexts)
+    let after: string | PreviousInsert | undefined
+    let insertions: Block[] = []
+
+    for (const a of alignments) {
+      switch (a.type) {
+        case 'insert':
+          insertions.push(a.next)
+          continue
+        case 'delete':
+          this.deletions.push({ type: 'delete', blockId: a.prev.id })
+          continue
+        case 'fixed':
+          // Fixed blocks stay where they are. Pending blocks cannot be inserted before the first block, so they are
+          // inserted after it in that case
+          if (insertions.length && after) {
+            this.insert(blockId, after, insertions)
+            insertions = []
+          }
+          after = a.prev.id
+          continue
+      }
+
+      if (insertions.length) {
+        if (!after) {
+          // Notion API can only insert blocks after an existing block. To insert blocks at the beginning, we insert
+          // them after the first remaining block and then re-create the block after them.
+          this.insert(blockId, a.prev.id, [...insertions, a.next], a.prev.id)
+          this.deletions.push({ type: 'delete', blockId: a.prev.id })
+          // The existing block remains until the deletions, so later blocks are inserted after its copy
+          after = { previousInsert: true }
+          insertions = []
+          continue
+        }
+        this.insert(blockId, after, insertions)
+        insertions = []
+      }
+
+      if (a.type == 'update') this.plan.push({ type: 'update', blockId: a.prev.id, data: a.next.data })
+      this.visitEach(a.prev.id, a.prev.children || [], a.next.children || [])
+      after = a.prev.id
+    }
+
+    // Since deletions are executed at last, blocks appended at the end are placed after the remaining blocks
+    if (insertions.length) this.insert(blockId, after, insertions)
+  }
+
+  insert(blockId: string, after: string | PreviousInsert | undefined, blocks: Block[], recreates?: string) {
+    this.plan.push({ type: 'insert', blockId, after, plan: plan(blocks, this.onError), recreates })
+  }
+}
+
+/**
+ * Align the existing blocks and the new blocks. Equivalent blocks are kept by the longest common subsequence, and the
+ * rest of blocks are paired as updates if they are updatable.
+ */
+function align(prevs: FetchedBlock[], nexts: Block[]): Alignment[] {
+  const prevKeys = prevs.map(b => canonicalize(b.data))
+  const nextKeys = nexts.map(b => canonicalize(b.data))
+
+  // lcs[i][j] = length of the LCS of prevs[i..] and nexts[j..]
+  const lcs = Array.from({ length: prevs.length + 1 }, () => new Array<number>(nexts.length + 1).fill(0))
+  for (let i = prevs.length - 1; 0 <= i; --i) {
+    for (let j = nexts.length - 1; 0 <= j; --j) {
+      lcs[i][j] = prevKeys[i] == nextKeys[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const ret: Alignment[] = []
+  let [i, j] = [0, 0]
+  let [gapI, gapJ] = [0, 0]
+  const flushGap = () => {
+    ret.push(...alignGap(prevs.slice(gapI, i), nexts.slice(gapJ, j)))
+  }
+  while (i < prevs.length && j < nexts.length) {
+    if (prevKeys[i] == nextKeys[j]) {
+      flushGap()
+      const [prev, next] = [prevs[i++], nexts[j++]]
+      ret.push(prev.fixed ? { type: 'fixed', prev } : { type: 'keep', prev, next })
+      ;[gapI, gapJ] = [i, j]
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      i++
+    } else {
+      j++
+    }
+  }
+  ;[i, j] = [prevs.length, nexts.length]
+  flushGap()
+  return ret
+}
+
+function alignGap(prevs: FetchedBlock[], nexts: Block[]): Alignment[] {
+  const ret: Alignment[] = []
+  const remove = (prev: FetchedBlock): Alignment => (prev.fixed ? { type: 'fixed', prev } : { type: 'delete', prev })
+  let i = 0
+  for (const next of nexts) {
+    const k = prevs.findIndex((prev, k) => i <= k && !prev.fixed && isUpdatable(prev.data, next.data))
+    if (k == -1) {
+      ret.push({ type: 'insert', next })
+      continue
+    }
+    for (; i < k; ++i) ret.push(remove(prevs[i]))
+    ret.push({ type: 'update', prev: prevs[i++], next })
+  }
+  for (; i < prevs.length; ++i) ret.push(remove(prevs[i]))
+  return ret
+}
+
+function isUpdatable(prev: BlockData, next: BlockData): boolean {
+  if (prev.type != next.type) return false
+  switch (next.type) {
+    case 'table':
+      // table_width cannot be updated
+      return prev.type == 'table' && prev.table.table_width == next.table.table_width
+    case 'column_list':
+      return false
+    default:
+      return true
+  }
+}
+
+/**
+ * Convert the BlockData to a string that can be compared for equivalence.
+ * Default values are omitted since block object responses contain them explicitly.
+ */
+function canonicalize(data: BlockData): string {
+  return JSON.stringify(normalize(data))
+}
+
+function normalize(value: unknown): unknown {
+  if (Array.isArray(value)) return mergeTexts(value.map(normalize))
+  if (typeof value == 'string') {
+    // Notion IDs may or may not contain hyphens
+    return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/.test(value)
+      ? value.replaceAll('-', '')
+      : value
+  }
+  if (!value || typeof value != 'object') return value
+
+  const ret: Record<string, unknown> = {}
+  for (const key of Object.keys(value).sort()) {
+    const v = normalize((value as Record<string, unknown>)[key])
+    if (isDefaultValue(v)) continue
+    ret[key] = v
+  }
+  return ret
+}
+
+function isDefaultValue(value: unknown): boolean {
+  if (value === undefined || value === null || value === false || value === 'default') return true
+  if (Array.isArray(value)) return value.length == 0
+  return typeof value == 'object' && Object.keys(value).length == 0
+}
+
+// Notion may merge or split adjacent texts that have the same annotations
+function mergeTexts(items: unknown[]): unknown[] {
+  const ret: unknown[] = []
+  for (const item of items) {
+    const last = ret[ret.length - 1]
+    if (isText(item) && isText(last) && JSON.stringify(withoutContent(item)) == JSON.stringify(withoutContent(last))) {
+      ret[ret.length - 1] = { ...last, text: { ...last.text, content: last.text.content + item.text.content } }
+      continue
+    }
+    ret.push(item)
+  }
+  return ret
+}
+
+interface Text {
+  type: 'text'
+  text: { content: string }
+}
+
+function isText(item: unknown): item is Text {
+  return !!item && typeof item == 'object' && 'type' in item && item.type == 'text'
+}
+
+function withoutContent(item: Text): unknown {
+  return { ...item, text: { ...item.text, content: undefined } }
+}
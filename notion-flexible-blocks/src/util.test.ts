@@ -1,5 +1,6 @@
+import { APIErrorCode, APIResponseError } from '@notionhq/client'
 import { describe, it, expect } from 'vitest'
-import { supportedLanguage } from './util.js'
+import { createRetryable, guessLanguage, supportedLanguage } from './util.js'
 
 describe('supportedLanguage', () => {
   it('should return the language name itself for supported languages', () => {
@@ -14,3 +15,97 @@ describe('supportedLanguage', () => {
     expect(supportedLanguage('unknown')).toBeNull()
   })
 })
+
+describe('guessLanguage', () => {
+  it('guesses the language from the file name', () => {
+    expect(guessLanguage('', 'src/index.ts')).toBe('typescript')
+    expect(guessLanguage('', 'app.py')).toBe('python')
+    expect(guessLanguage('', 'Main.java')).toBe('java')
+    expect(guessLanguage('', 'docker/Dockerfile')).toBe('docker')
+    expect(guessLanguage('', '.github/workflows/ci.yml')).toBe('yaml')
+    expect(guessLanguage('print(1)', 'notes.unknown')).toBe('python')
+  })
+
+  it('guesses the language from the shebang', () => {
+    expect(guessLanguage('#!/bin/bash\necho hi')).toBe('shell')
+    expect(guessLanguage('#!/usr/bin/env python3\nprint(1)')).toBe('python')
+    expect(guessLanguage('#!/usr/bin/env -S deno run\nconsole.log(1)')).toBe('typescript')
+    expect(guessLanguage('#!/usr/bin/ruby2.7\nputs 1')).toBe('ruby')
+  })
+
+  it('guesses the language from keywords', () => {
+    const cases: [string, string][] = [
+      ['{ "a": [1, 2] }', 'json'],
+      ['<?php echo 1;', 'php'],
+      ['<!DOCTYPE html>\n<html></html>', 'html'],
+      ['diff --git a/x b/x\n--- a/x\n+++ b/x', 'diff'],
+      ['FROM node:22\nRUN pnpm install', 'docker'],
+      ['SELECT id FROM users WHERE id = 1;', 'sql'],
+      ['#include <iostream>\nint main() { std::cout << 1; }', 'c++'],
+      ['#include <stdio.h>\nint main() { printf("1"); }', 'c'],
+      ['package main\n\nfunc main() {}', 'go'],
+      ['fn main() {\n    println!("1");\n}', 'rust'],
+      ['def main():\n    return 1', 'python'],
+      ['def main\n  1\nend', 'ruby'],
+      ['interface Foo {\n  bar: string\n}', 'typescript'],
+      ['const a = () => 1', 'javascript'],
+      ['$ pnpm install', 'shell'],
+      ['.foo > a {\n  color: red;\n}', 'css'],
+      ['name: ci\non:\n  - push', 'yaml'],
+    ]
+    expect(cases.map(([code]) => [code, guessLanguage(code)])).toEqual(cases)
+  })
+
+  it('returns null for unknown code', () => {
+    expect(guessLanguage('')).toBeNull()
+    expect(guessLanguage('Lorem ipsum dolor sit amet')).toBeNull()
+    expect(guessLanguage('#!/usr/bin/unknown')).toBeNull()
+  })
+})
+
+describe('createRetryable', () => {
+  const error = (code: APIErrorCode, headers: Record<string, string> = {}) =>
+    new APIResponseError({ code, status: 400, message: code, headers, rawBodyText: '' })
+
+  const failing = (errors: unknown[]) => async () => {
+    const e = errors.shift()
+    if (e) throw e
+    return 'ok'
+  }
+
+  it('retries retryable errors respecting retry-after', async () => {
+    const retries: [number, number][] = []
+    const retryable = createRetryable({
+      jitter: 0,
+      requestsPerSecond: Infinity,
+      onRetry: (_, attempt, delay) => retries.push([attempt, delay]),
+    })
+    const errors = [
+      error(APIErrorCode.RateLimited, { 'retry-after': '0.01' }),
+      error(APIErrorCode.RateLimited, { 'retry-after': '0.02' }),
+    ]
+    expect(await retryable(failing(errors))).toBe('ok')
+    expect(retries).toEqual([
+      [1, 10],
+      [2, 20],
+    ])
+  })
+
+  it('does not retry other errors', async () => {
+    const retryable = createRetryable({ requestsPerSecond: Infinity })
+    await expect(retryable(failing([error(APIErrorCode.ValidationError)]))).rejects.toThrow('validation_error')
+  })
+
+  it('gives up after maxRetries', async () => {
+    const retryable = createRetryable({ maxRetries: 1, requestsPerSecond: Infinity })
+    const errors = [0, 1].map(() => error(APIErrorCode.RateLimited, { 'retry-after': '0' }))
+    await expect(retryable(failing(errors))).rejects.toThrow('rate_limited')
+  })
+
+  it('shares a token bucket between retryables', async () => {
+    const [a, b] = [createRetryable({ requestsPerSecond: 1000 }), createRetryable({ requestsPerSecond: 1000 })]
+    const start = Date.now()
+    await Promise.all(new Array(600).fill(null).flatMap(() => [a(failing([])), b(failing([]))]))
+    expect(Date.now() - start).toBeGreaterThanOrEqual(180) // 200 requests exceed the burst of 1000 requests
+  })
+})
@@ -1,9 +1,13 @@
 import { setTimeout } from 'timers/promises'
 import { APIErrorCode, APIResponseError, RequestTimeoutError } from '@notionhq/client'
+import { MAX_URL_LENGTH } from './limits.js'
 
-// See https://developers.notion.com/reference/request-limits
-const MAX_URL_LENGTH = 2000
 const DEFAULT_RETRY_COUNT = 12 // enough count for rate limits with exponential backoff
+const DEFAULT_JITTER = 0.2
+const DEFAULT_REQUESTS_PER_SECOND = 3
+
+// Token buckets shared in a process, by requests per second
+const tokenBuckets = new Map<number, TokenBucket>()
 const DEFAULT_RETRYABLE_ERROR_CODES = [
   APIErrorCode.ConflictError,
   APIErrorCode.RateLimited,
@@ -16,21 +20,122 @@ const DEFAULT_RETRYABLE_ERROR_CODES = [
  */
 export type Retryable = <T>(action: () => Promise<T>) => Promise<T>
 
-export const defaultRetryable: Retryable = async <T>(action: () => Promise<T>) => {
-  for (let i = 0; i < DEFAULT_RETRY_COUNT; ++i) {
-    try {
-      return await action()
-    } catch (e) {
-      const isRetryableError =
-        RequestTimeoutError.isRequestTimeoutError(e) ||
-        (APIResponseError.isAPIResponseError(e) && DEFAULT_RETRYABLE_ERROR_CODES.includes(e.code))
+export interface RetryableOptions {
+  /**
+   * The maximum number of retries. Defaults to 12.
+   */
+  maxRetries?: number
+
+  /**
+   * The ratio of random delay added to each backoff, to prevent concurrent callers from retrying at the same time.
+   * Defaults to 0.2.
+   */
+  jitter?: number
 
-      if (!isRetryableError) throw e
+  /**
+   * The number of requests per second. Retryables with the same value share one token bucket in a process.
+   * Defaults to 3, the average rate limit of Notion API. Specify `Infinity` to disable throttling.
+   */
+  requestsPerSecond?: number
+
+  /**
+   * Called before waiting for a retry.
+   */
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void
+}
+
+/**
+ * Create a retry policy that throttles requests and retries on retryable errors with exponential backoff.
+ * The `retry-after` header of rate limited responses is respected, and it also pauses the other callers sharing the
+ * token bucket.
+ */
+export function createRetryable(options?: RetryableOptions): Retryable {
+  const {
+    maxRetries = DEFAULT_RETRY_COUNT,
+    jitter = DEFAULT_JITTER,
+    requestsPerSecond = DEFAULT_REQUESTS_PER_SECOND,
+    onRetry,
+  } = options ?? {}
+  const bucket = tokenBucket(requestsPerSecond)
+
+  return async <T>(action: () => Promise<T>) => {
+    for (let i = 0; ; ++i) {
+      await bucket?.acquire()
+      try {
+        return await action()
+      } catch (e) {
+        const isRetryableError =
+          RequestTimeoutError.isRequestTimeoutError(e) ||
+          (APIResponseError.isAPIResponseError(e) && DEFAULT_RETRYABLE_ERROR_CODES.includes(e.code))
+        if (!isRetryableError || maxRetries <= i) throw e
+
+        const retryAfter = retryAfterMs(e)
+        if (retryAfter != null) bucket?.pause(retryAfter)
+        const delay = (retryAfter ?? 1000 * 2 ** i) * (1 + jitter * Math.random())
+        onRetry?.(e, i + 1, delay)
+        await setTimeout(delay)
+      }
     }
+  }
+}
+
+// Requests are not throttled by default for backward compatibility
+export const defaultRetryable: Retryable = createRetryable({ requestsPerSecond: Infinity })
 
-    await setTimeout(1000 * 2 ** i)
+function retryAfterMs(e: unknown): number | null {
+  if (!APIResponseError.isAPIResponseError(e) || e.code != APIErrorCode.RateLimited) return null
+  const headers = e.headers
+  const value =
+    headers instanceof Headers
+      ? headers.get('retry-after')
+      : (headers as Record<string, string> | undefined)?.['retry-after']
+  const seconds = Number(value)
+  return value && Number.isFinite(seconds) ? seconds * 1000 : null
+}
+
+interface TokenBucket {
+  acquire(): Promise<void>
+  pause(ms: number): void
+}
+
+function tokenBucket(requestsPerSecond: number): TokenBucket | null {
+  if (!Number.isFinite(requestsPerSecond)) return null
+  let bucket = tokenBuckets.get(requestsPerSecond)
+  if (!bucket) {
+    bucket = createTokenBucket(requestsPerSecond)
+    tokenBuckets.set(requestsPerSecond, bucket)
+  }
+  return bucket
+}
+
+function createTokenBucket(requestsPerSecond: number): TokenBucket {
+  const capacity = Math.max(1, requestsPerSecond)
+  let tokens = capacity
+  let updatedAt = Date.now()
+  let pausedUntil = 0
+
+  return {
+    async acquire() {
+      for (;;) {
+        const now = Date.now()
+        if (now < pausedUntil) {
+          await setTimeout(pausedUntil - now)
+          continue
+        }
+        tokens = Math.min(capacity, tokens + ((now - updatedAt) * requestsPerSecond) / 1000)
+        updatedAt = now
+        if (1 <= tokens) {
+          --tokens
+          return
+        }
+        await setTimeout(((1 - tokens) * 1000) / requestsPerSecond)
+      }
+    },
+    pause(ms) {
+      pausedUntil = Math.max(pausedUntil, Date.now() + ms)
+      tokens = 0
+    },
   }
-  return await action()
 }
 
 /**
@@ -204,3 +309,160 @@ const supportedLanguageNormalization: Record<string, SupportedLanguage> = {
 }
 
 for (const lang of supportedLanguages) supportedLanguageNormalization[lang] = lang
+
+/**
+ * Guess the language of the code from the file name, the shebang and characteristic keywords.
+ * This is a heuristic, and may be wrong for short snippets.
+ * @returns The guessed language, or null if no language is likely.
+ */
+export function guessLanguage(code: string, filename?: string | null): SupportedLanguage | null {
+  if (filename) {
+    const basename = filename.replace(/^.*[/\\]/, '')
+    const ext = /\.([^.]+)$/.exec(basename)?.[1].toLowerCase()
+    const lang = languageByFilename[basename] ?? (ext && (languageByExtension[ext] ?? supportedLanguage(ext)))
+    if (lang) return lang
+  }
+
+  if (code.startsWith('#!')) {
+    // `#!/usr/bin/python3`, `#!/usr/bin/env -S deno run` and so on
+    const [command, ...args] = code.slice(2).split('\n', 1)[0].trim().split(/\s+/)
+    const program = command.endsWith('/env') ? args.find(arg => !arg.startsWith('-')) : command
+    const interpreter = (program ?? '').replace(/^.*\//, '').replace(/[\d.]+$/, '')
+    return languageByInterpreter[interpreter] ?? supportedLanguage(interpreter)
+  }
+
+  for (const [lang, test] of languageHeuristics) if (test(code)) return lang
+  return null
+}
+
+const languageByFilename: Record<string, SupportedLanguage> = {
+  Dockerfile: 'docker',
+  Containerfile: 'docker',
+  Makefile: 'makefile',
+  GNUmakefile: 'makefile',
+  Gemfile: 'ruby',
+  Rakefile: 'ruby',
+  Jenkinsfile: 'groovy',
+  '.bashrc': 'shell',
+  '.zshrc': 'shell',
+  '.profile': 'shell',
+}
+
+const languageByExtension: Record<string, SupportedLanguage> = {
+  bash: 'shell',
+  zsh: 'shell',
+  c: 'c',
+  h: 'c',
+  cc: 'c++',
+  cxx: 'c++',
+  hpp: 'c++',
+  hh: 'c++',
+  cs: 'c#',
+  clj: 'clojure',
+  cljs: 'clojure',
+  ex: 'elixir',
+  exs: 'elixir',
+  erl: 'erlang',
+  f90: 'fortran',
+  fs: 'f#',
+  feature: 'gherkin',
+  frag: 'glsl',
+  vert: 'glsl',
+  gql: 'graphql',
+  gradle: 'groovy',
+  hs: 'haskell',
+  htm: 'html',
+  java: 'java',
+  cjs: 'javascript',
+  mjs: 'javascript',
+  jsx: 'javascript',
+  jl: 'julia',
+  kt: 'kotlin',
+  kts: 'kotlin',
+  el: 'lisp',
+  lisp: 'lisp',
+  md: 'markdown',
+  mmd: 'mermaid',
+  m: 'objective-c',
+  ml: 'ocaml',
+  pas: 'pascal',
+  pl: 'perl',
+  ps1: 'powershell',
+  proto: 'protobuf',
+  py: 'python',
+  re: 'reason',
+  scm: 'scheme',
+  patch: 'diff',
+  cts: 'typescript',
+  mts: 'typescript',
+  tsx: 'typescript',
+  vb: 'vb.net',
+  vhd: 'vhdl',
+  wat: 'webassembly',
+  yml: 'yaml',
+}
+
+const languageByInterpreter: Record<string, SupportedLanguage> = {
+  bash: 'shell',
+  sh: 'shell',
+  zsh: 'shell',
+  node: 'javascript',
+  deno: 'typescript',
+  'ts-node': 'typescript',
+  tsx: 'typescript',
+  python: 'python',
+  ruby: 'ruby',
+  pwsh: 'powershell',
+  Rscript: 'r',
+}
+
+// Ordered from the most specific, since the first matching heuristic wins
+const languageHeuristics: [SupportedLanguage, (code: string) => boolean][] = [
+  ['json', code => /^\s*[[{]/.test(code) && isJson(code)],
+  ['php', code => /^<\?php\b/.test(code)],
+  ['xml', code => /^\s*<\?xml\b/.test(code)],
+  ['html', code => /^\s*(<!doctype html|<html[\s>])/i.test(code)],
+  ['diff', code => /^(diff --git |--- a\/|@@ -\d+(,\d+)? \+\d+(,\d+)? @@)/m.test(code)],
+  ['docker', code => /^FROM\s+\S+/m.test(code) && /^(RUN|COPY|CMD|ENTRYPOINT)\s/m.test(code)],
+  ['mermaid', code => /^\s*(graph|flowchart|sequenceDiagram|classDiagram|stateDiagram|erDiagram|gantt)\b/.test(code)],
+  [
+    'sql',
+    code => /^\s*(SELECT\s[\s\S]*\sFROM|INSERT\s+INTO|UPDATE\s+\w+\s+SET|DELETE\s+FROM|CREATE\s+TABLE)\s/im.test(code),
+  ],
+  ['c++', code => /^#include\s*<(iostream|vector|string|memory)>|\bstd::/m.test(code)],
+  ['c', code => /^#include\s*[<"]/m.test(code)],
+  ['c#', code => /^using\s+System\b|\bConsole\.Write(Line)?\(/m.test(code)],
+  ['java', code => /\bpublic\s+(static\s+)?(final\s+)?(class|interface|void)\b|\bSystem\.out\.print/.test(code)],
+  ['go', code => /^package\s+\w+$/m.test(code) || /^func\s+(\(\w+\s+\*?\w+\)\s*)?\w+\(/m.test(code)],
+  ['rust', code => /^\s*(pub\s+)?fn\s+\w+|\blet\s+mut\s|\bprintln!\(|^use\s+\w+::/m.test(code)],
+  [
+    'python',
+    code => /^\s*(def|class)\s+\w+.*:\s*$|^from\s+[\w.]+\s+import\s|^import\s+[\w.]+\s*$|\bprint\(/m.test(code),
+  ],
+  ['ruby', code => /^\s*def\s+\w+[^:{]*$|^\s*require\s+['"]|^\s*puts\s/m.test(code)],
+  [
+    'typescript',
+    code =>
+      /^\s*(export\s+)?(interface|type)\s+\w+|^import\s+type\s|:\s*(string|number|boolean)(\[\])?\s*[,;)=]/m.test(code),
+  ],
+  ['javascript', code => /^\s*(const|let|var)\s+\w+\s*=|=>|\bfunction\b.*\(|\bconsole\.log\(|\brequire\(/m.test(code)],
+  [
+    'shell',
+    code => /^\s*(\$\s+\S|sudo\s|apt(-get)?\s|brew\s|npm\s|pnpm\s|yarn\s|npx\s|echo\s|export\s+\w+=|cd\s)/m.test(code),
+  ],
+  ['css', code => /^[^{}\n]+\{\s*$[\s\S]*?^\s*[\w-]+\s*:\s*[^;\n]+;\s*$/m.test(code)],
+  [
+    'yaml',
+    code =>
+      /^\s*[\w.-]+:(\s|$)/m.test(code) && code.split('\n').every(line => /^\s*($|#|- |-$|[\w.-]+:(\s|$))/.test(line)),
+  ],
+]
+
+function isJson(code: string): boolean {
+  try {
+    JSON.parse(code)
+    return true
+  } catch {
+    return false
+  }
+}
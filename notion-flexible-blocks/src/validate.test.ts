@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest'
+import { validate } from './validate.js'
+import {
+  block,
+  bulletedListItem,
+  code,
+  equationBlock,
+  column,
+  columnList,
+  embed,
+  heading1,
+  paragraph,
+  table,
+  tableRow,
+  template,
+} from './block.js'
+import { equation, text } from './inline.js'
+import { InvalidChildrenError, LimitExceededError, UnsupportedMediaError, UrlTooLongError } from './error.js'
+import { mapLink } from './flexible-block.js'
+
+describe('validate', () => {
+  const node = bulletedListItem
+
+  it('collects every problem with the block path', () => {
+    const longUrl = `https://example.com/${'x'.repeat(2000)}`
+    const fbs = [
+      paragraph(text('ok')),
+      node(text('0'), [
+        paragraph(text('cannot have children'), [paragraph(text('x'))]),
+        code('x'.repeat(100001)),
+        node(text('link').map(i => mapLink(i, () => longUrl))),
+      ]),
+      heading1(text('h'), [paragraph(text('x'))], { isToggleable: false }),
+      table(1, [tableRow([text('a')])]),
+      table(2, [tableRow([text('a'), text('b')]), tableRow([text('c')])]),
+      columnList([]),
+      template(text('t'), [paragraph(text('x'))]),
+    ]
+    const errors = validate(fbs)
+    expect(errors).toHaveLength(7)
+    expect(errors[0]).toBeInstanceOf(InvalidChildrenError)
+    expect(errors[0]).toMatchObject({
+      path: [1, 0],
+      message: 'The block at [1, 0]: paragraph cannot have children',
+    })
+    expect(errors[1]).toBeInstanceOf(LimitExceededError)
+    expect(errors[1]).toMatchObject({ path: [1, 1], limit: 100, actual: 101 })
+    expect(errors[2]).toBeInstanceOf(UrlTooLongError)
+    expect(errors[2]).toMatchObject({ path: [1, 2], data: longUrl })
+    expect(errors[3]).toMatchObject({ path: [2], message: expect.stringContaining('unless it is toggleable') })
+    expect(errors[4]).toBeInstanceOf(InvalidChildrenError)
+    expect(errors[4]).toMatchObject({
+      path: [4, 1],
+      message: expect.stringContaining('as many cells as the table width'),
+    })
+    expect(errors[5]).toMatchObject({ path: [5], message: expect.stringContaining('at least 2 columns') })
+    expect(errors[6]).toMatchObject({
+      path: [6],
+      message: 'The block at [6]: template block cannot be created through the API',
+    })
+  })
+
+  it('reports unsupported media with the block path', () => {
+    const unsupported = block({
+      object: 'block',
+      type: 'image',
+      image: { type: 'external', external: { url: 'https://example.com/file.txt' } },
+    })
+    const errors = validate([node(text('0'), [unsupported])])
+    expect(errors).toHaveLength(1)
+    expect(errors[0]).toBeInstanceOf(UnsupportedMediaError)
+    expect(errors[0]).toMatchObject({ path: [0, 0], message: 'The block at [0, 0]: Unsupported file extension' })
+  })
+
+  it('reports too long equations', () => {
+    const errors = validate([equationBlock('x'.repeat(1500)), paragraph([equation('x'.repeat(1001))])])
+    expect(errors).toHaveLength(2)
+    expect(errors[0]).toBeInstanceOf(LimitExceededError)
+    expect(errors[0]).toMatchObject({
+      path: [0],
+      message: 'The block at [0]: equation has too long equation expression: 1500 > 1000',
+    })
+    expect(errors[1]).toMatchObject({ path: [1], limit: 1000, actual: 1001 })
+  })
+
+  it('returns no errors for valid blocks', () => {
+    const fbs = [
+      ...embed({ url: 'https://example.com/' }),
+      columnList([column([paragraph(text('left'))]), column([paragraph(text('right'))])]),
+      node(text('0'), [node(text('0-0'), [node(text('0-0-0'), [node(text('0-0-0-0'))])])]),
+    ]
+    expect(validate(fbs)).toEqual([])
+  })
+})
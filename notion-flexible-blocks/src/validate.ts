@@ -0,0 +1,244 @@
+import { type FlexibleBlock, toBlocks } from './flexible-block.js'
+import { type Block, type BlockData, type MediaContent, validateMedia } from './block.js'
+import type { InlineData } from './inline.js'
+import { InvalidChildrenError, LimitExceededError, UrlTooLongError, ValidationError } from './error.js'
+import {
+  MAX_EQUATION_LENGTH,
+  MAX_PAYLOAD_SIZE,
+  MAX_RICH_TEXT_LENGTH,
+  MAX_TEXT_CONTENT_LENGTH,
+  MAX_URL_LENGTH,
+} from './limits.js'
+
+/**
+ * Validate FlexibleBlocks without calling any API, and collect every problem at once.
+ * Limits that can be resolved by splitting API calls are not reported.
+ * @returns Validation errors in document order. Empty if the blocks can be created.
+ */
+export function validate(fbs: FlexibleBlock[]): ValidationError[] {
+  const errors: ValidationError[] = []
+  const visit = (blocks: Block[], path: number[]) => {
+    for (const [i, block] of blocks.entries()) {
+      errors.push(...validateBlock(block, [...path, i]))
+      visit(block.children ?? [], [...path, i])
+    }
+  }
+  visit(toBlocks(fbs), [])
+  return errors
+}
+
+/**
+ * Validate a block without its descendants.
+ */
+export function validateBlock(block: Block, path: number[]): ValidationError[] {
+  const errors = [...validateRichTexts(block, path), ...validateEquations(block, path), ...validateUrls(block, path)]
+  const mediaError = validateMedia(block.data, path)
+  if (mediaError) errors.push(mediaError)
+  const size = new TextEncoder().encode(JSON.stringify({ children: [block.data] })).length
+  if (MAX_PAYLOAD_SIZE < size) {
+    errors.push(
+      new LimitExceededError(
+        `${block.data.type} is too large to fit in a request`,
+        MAX_PAYLOAD_SIZE,
+        size,
+        path,
+        block,
+      ),
+    )
+  }
+
+  const children = block.children ?? []
+  const invalidChildren = (message: string) => errors.push(new InvalidChildrenError(message, path, block))
+  switch (block.data.type) {
+    case 'embed':
+    case 'bookmark':
+    case 'image':
+    case 'video':
+    case 'pdf':
+    case 'file':
+    case 'audio':
+    case 'code':
+    case 'equation':
+    case 'divider':
+    case 'breadcrumb':
+    case 'table_of_contents':
+    case 'link_to_page':
+    case 'paragraph':
+    case 'table_row':
+      if (children.length) invalidChildren(`${block.data.type} cannot have children`)
+      break
+    case 'table': {
+      if (!children.every(c => c.data.type == 'table_row')) invalidChildren('Only table_row must appear under table')
+      const width = block.data.table.table_width
+      for (const [i, row] of children.entries()) {
+        if (row.data.type == 'table_row' && row.data.table_row.cells.length != width) {
+          const message = `table_row must have as many cells as the table width: ${row.data.table_row.cells.length} != ${width}`
+          errors.push(new InvalidChildrenError(message, [...path, i], row))
+        }
+      }
+      break
+    }
+    case 'column_list':
+      if (!children.every(c => c.data.type == 'column')) invalidChildren('Only column must appear under column_list')
+      // Notion requires a column list to have at least 2 columns
+      if (children.length < 2) invalidChildren(`column_list must have at least 2 columns: ${children.length} < 2`)
+      break
+    case 'synced_block':
+      if (block.data.synced_block.synced_from && children.length) {
+        invalidChildren('synced_block reference cannot have children')
+      }
+      break
+    case 'heading_1':
+    case 'heading_2':
+    case 'heading_3': {
+      const data = block.data
+      const detail = 'heading_1' in data ? data.heading_1 : 'heading_2' in data ? data.heading_2 : data.heading_3
+      if (!detail.is_toggleable && children.length) {
+        invalidChildren(`${block.data.type} cannot have children unless it is toggleable`)
+      }
+      break
+    }
+    case 'column':
+    case 'quote':
+    case 'bulleted_list_item':
+    case 'numbered_list_item':
+    case 'to_do':
+    case 'toggle':
+    case 'callout':
+      break
+    case 'template':
+      // Notion no longer allows template blocks to be created through the API since 2023-03-27
+      errors.push(new ValidationError('template block cannot be created through the API', path, block))
+      break
+    case undefined:
+      errors.push(new ValidationError('Block type unspecified', path, block))
+      break
+    default:
+      throw new Error(block.data satisfies never)
+  }
+  return errors
+}
+
+function validateRichTexts(block: Block, path: number[]): ValidationError[] {
+  const errors: ValidationError[] = []
+  for (const richText of richTextsOf(block)) {
+    if (MAX_RICH_TEXT_LENGTH < richText.length) {
+      const message = `${block.data.type} has too many rich text elements`
+      errors.push(new LimitExceededError(message, MAX_RICH_TEXT_LENGTH, richText.length, path, richText))
+    }
+    for (const item of richText) {
+      const length = item.type == 'text' ? item.text.content.length : 0
+      if (MAX_TEXT_CONTENT_LENGTH < length) {
+        const message = `${block.data.type} has too long text content`
+        errors.push(new LimitExceededError(message, MAX_TEXT_CONTENT_LENGTH, length, path, item))
+      }
+    }
+  }
+  return errors
+}
+
+function validateEquations(block: Block, path: number[]): ValidationError[] {
+  const expressions: (string | undefined)[] = [
+    block.data.type == 'equation' ? block.data.equation.expression : undefined,
+    ...richTextsOf(block).flatMap(richText =>
+      richText.map(item => (item.type == 'equation' ? item.equation.expression : undefined)),
+    ),
+  ]
+  return expressions
+    .filter((expression): expression is string => expression != null && MAX_EQUATION_LENGTH < expression.length)
+    .map(
+      expression =>
+        new LimitExceededError(
+          `${block.data.type} has too long equation expression`,
+          MAX_EQUATION_LENGTH,
+          expression.length,
+          path,
+          expression,
+        ),
+    )
+}
+
+function validateUrls(block: Block, path: number[]): ValidationError[] {
+  const urls: (string | undefined)[] = [
+    urlOf(block.data),
+    ...richTextsOf(block).flatMap(richText =>
+      richText.map(item => (item.type == 'text' ? item.text.link?.url : undefined)),
+    ),
+  ]
+  return urls
+    .filter((url): url is string => url != null && MAX_URL_LENGTH < url.length)
+    .map(url => new UrlTooLongError(url, MAX_URL_LENGTH, path))
+}
+
+function urlOf(data: BlockData): string | undefined {
+  switch (data.type) {
+    case 'embed':
+      return data.embed.url
+    case 'bookmark':
+      return data.bookmark.url
+    case 'image':
+      return externalUrlOf(data.image)
+    case 'video':
+      return externalUrlOf(data.video)
+    case 'pdf':
+      return externalUrlOf(data.pdf)
+    case 'file':
+      return externalUrlOf(data.file)
+    case 'audio':
+      return externalUrlOf(data.audio)
+    default:
+      return undefined
+  }
+}
+
+function externalUrlOf(content: MediaContent): string | undefined {
+  return 'external' in content ? content.external.url : undefined
+}
+
+function richTextsOf(block: Block): InlineData[][] {
+  const data = block.data
+  switch (data.type) {
+    case 'paragraph':
+      return [data.paragraph.rich_text]
+    case 'heading_1':
+      return [data.heading_1.rich_text]
+    case 'heading_2':
+      return [data.heading_2.rich_text]
+    case 'heading_3':
+      return [data.heading_3.rich_text]
+    case 'bulleted_list_item':
+      return [data.bulleted_list_item.rich_text]
+    case 'numbered_list_item':
+      return [data.numbered_list_item.rich_text]
+    case 'quote':
+      return [data.quote.rich_text]
+    case 'to_do':
+      return [data.to_do.rich_text]
+    case 'toggle':
+      return [data.toggle.rich_text]
+    case 'template':
+      return [data.template.rich_text]
+    case 'callout':
+      return [data.callout.rich_text]
+    case 'code':
+      return [data.code.rich_text, data.code.caption ?? []]
+    case 'embed':
+      return [data.embed.caption ?? []]
+    case 'bookmark':
+      return [data.bookmark.caption ?? []]
+    case 'image':
+      return [data.image.caption ?? []]
+    case 'video':
+      return [data.video.caption ?? []]
+    case 'pdf':
+      return [data.pdf.caption ?? []]
+    case 'file':
+      return [data.file.caption ?? []]
+    case 'audio':
+      return [data.audio.caption ?? []]
+    case 'table_row':
+      return data.table_row.cells
+    default:
+      return []
+  }
+}
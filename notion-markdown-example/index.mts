@@ -149,6 +149,14 @@ Images in table cells are replaced by the reference strings:
 - Link to Google: [Link to Google](https://www.google.com)
 - Link to Notion page: [Link to Notion page](notion/1e9b53d5317a800593a3de04458c65e5)
 
+# Equations
+
+Inline equation: $$E = mc^2$$
+
+$$
+\\int_0^1 x \\, dx = \\frac{1}{2}
+$$
+
 # HTML tags
 
 \`notion-markdown\` supports several HTML tags, including \`<a>\`, \`<details>\`, and \`<br>\`.
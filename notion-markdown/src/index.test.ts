@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest'
+import * as fb from '@yubrot/notion-flexible-blocks'
+import { FakeNotion } from '@yubrot/notion-flexible-blocks/testing'
+import { type FrontMatter, create, createPage, defaultMapFrontMatter } from './index.js'
+
+const input = `---
+title: Hello
+icon: 🚀
+cover: https://example.com/cover.png
+tags: [a, b]
+---
+
+# Heading
+`
+const mapFrontMatter = async (frontMatter: FrontMatter) => ({
+  ...(await defaultMapFrontMatter(frontMatter)),
+  properties: { Tags: { multi_select: (frontMatter.tags as string[]).map(name => ({ name })) } },
+})
+const schema = { Name: { title: {} }, Tags: { multi_select: {} } }
+
+describe('create', () => {
+  it('links footnotes to each other', async () => {
+    const notion = new FakeNotion()
+    const pageId = notion.addRoot()
+    const client = notion.client()
+    const input = `
+# Title
+
+foo [^a] bar [^b]
+
+- item [^a]
+
+[^a]: note a
+[^b]: note b
+`
+    const created = await create(client, pageId, input, { footnotes: 'toggle', resolveIds: true })
+    const [, body, , toggle] = created
+    const [noteA, noteB] = toggle.children ?? []
+
+    const links = (blocks: fb.Block[]) =>
+      blocks.map(({ data }) =>
+        (data.type == 'paragraph'
+          ? data.paragraph.rich_text
+          : data.type == 'bulleted_list_item'
+            ? data.bulleted_list_item.rich_text
+            : []
+        ).flatMap(item => (item.type == 'text' && item.text.link ? [item.text.link.url] : [])),
+      )
+    const anchor = (block: fb.ShallowCreatedBlock) => `${fb.toPageUrl(pageId)}#${block.id.replaceAll('-', '')}`
+    const [, ...blocks] = await fb.fetch(client, pageId)
+    expect(links(blocks.slice(0, 2))).toEqual([[anchor(noteA), anchor(noteB)], [anchor(noteA)]])
+    expect(links(await fb.fetch(client, toggle.id))).toEqual([[anchor(body)], [anchor(body)]])
+
+    // Blocks created under a block are linked with the URL of the page containing them
+    const [container] = await fb.create(client, pageId, [fb.toggle(fb.text('container'))])
+    await create(client, container.id, 'foo [^a]\n\n[^a]: note a\n', { footnotes: 'divider' })
+    const [nested] = await fb.fetch(client, container.id)
+    expect(links([nested])).toEqual([[expect.stringMatching(new RegExp(`^${fb.toPageUrl(pageId)}#`))]])
+
+    // The IDs of nested blocks are not retrieved unless footnotes are linked
+    const callsBefore = notion.calls.length
+    await create(client, notion.addRoot(), input)
+    expect(notion.calls.slice(callsBefore).filter(c => c.method == 'GET')).toEqual([])
+  })
+
+  it('maps front matter to the page', async () => {
+    const notion = new FakeNotion()
+    const client = notion.client()
+    const { id: pageId } = await client.pages.create({
+      parent: { database_id: notion.addDatabase(schema) },
+      properties: {},
+    })
+    await create(client, pageId, input, { mapFrontMatter })
+
+    expect(await client.pages.retrieve({ page_id: pageId })).toMatchObject({
+      properties: {
+        Name: { title: [{ plain_text: 'Hello' }] },
+        Tags: { multi_select: [{ name: 'a' }, { name: 'b' }] },
+      },
+      icon: { emoji: '🚀' },
+      cover: { external: { url: 'https://example.com/cover.png' } },
+    })
+    expect(await fb.fetch(client, pageId)).toMatchObject([{ data: { type: 'heading_1' } }])
+    expect(await defaultMapFrontMatter({ icon: 'rocket' })).toEqual({ icon: undefined })
+
+    // The page is not updated unless mapFrontMatter is specified
+    await create(client, notion.addRoot(), input)
+    expect(notion.calls.filter(c => c.method == 'PATCH' && c.path.startsWith('/v1/pages'))).toHaveLength(1)
+  })
+})
+
+describe('createPage', () => {
+  it('creates a database page from front matter', async () => {
+    const notion = new FakeNotion()
+    const client = notion.client()
+    const databaseId = notion.addDatabase(schema)
+    const page = await createPage(
+      client,
+      { parent: { database_id: databaseId } },
+      `${input}\nfoo [^1]\n\n[^1]: bar\n`,
+      {
+        mapFrontMatter,
+        footnotes: 'heading',
+      },
+    )
+
+    expect(await client.pages.retrieve({ page_id: page.id })).toMatchObject({
+      parent: { database_id: databaseId },
+      properties: {
+        Name: { title: [{ plain_text: 'Hello' }] },
+        Tags: { multi_select: [{ name: 'a' }, { name: 'b' }] },
+      },
+      icon: { emoji: '🚀' },
+    })
+    expect(page.children.map(b => [b.data.type, b.position?.start.line])).toEqual([
+      ['heading_1', 8],
+      ['paragraph', 10],
+      ['heading_2', undefined],
+      ['paragraph', 12],
+    ])
+    // Footnotes are linked within the created page
+    const [, body, , note] = await fb.fetch(client, page.id)
+    const anchor = (block: fb.ShallowCreatedBlock) => `${fb.toPageUrl(page.id)}#${block.id.replaceAll('-', '')}`
+    expect(body.data.type == 'paragraph' && body.data.paragraph.rich_text[1]).toMatchObject({
+      text: { link: { url: anchor(page.children[3]) } },
+    })
+    expect(note.data.type == 'paragraph' && note.data.paragraph.rich_text[0]).toMatchObject({
+      text: { link: { url: anchor(page.children[1]) } },
+    })
+
+    // Properties in the page options take precedence, and are checked against the schema
+    const title = { title: fb.text('Overridden').map(c => c.data) }
+    const overridden = await createPage(client, { parent: { database_id: databaseId }, properties: { title } }, input)
+    expect(await client.pages.retrieve({ page_id: overridden.id })).toMatchObject({
+      properties: { Name: { title: [{ plain_text: 'Overridden' }] } },
+    })
+    // The title in the front matter is not sent along with a title property referred to by its name
+    await createPage(client, { parent: { database_id: databaseId }, properties: { Name: title } }, input)
+    const request = notion.calls.filter(c => c.method == 'POST' && c.path == '/v1/pages').at(-1)
+    expect(request?.body).toMatchObject({ properties: { Name: { title: [{ text: { content: 'Overridden' } }] } } })
+    expect(request?.body).not.toHaveProperty('properties.title')
+    await expect(
+      createPage(client, { parent: { database_id: databaseId } }, input, {
+        mapFrontMatter: async () => ({ properties: { Owner: { rich_text: [] } } }),
+      }),
+    ).rejects.toThrow('The property "Owner": No such property in the database')
+  })
+})
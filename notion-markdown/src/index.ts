@@ -1,24 +1,262 @@
-import type { Client } from '@notionhq/client'
+import { type Client, isFullBlock } from '@notionhq/client'
 import * as fb from '@yubrot/notion-flexible-blocks'
-import { translate, type Context } from './translate.js'
+import { translateWithPositions, type Context, type FootnoteLink } from './translate.js'
+import { type PageContext, defaultMapFrontMatter, toProperties, updatePage } from './page.js'
+import type { Position } from './markdown.js'
 
-export { type Context, type MappedImage, type MappedLink } from './translate.js'
-export { type Retryable } from '@yubrot/notion-flexible-blocks'
+export {
+  type Context,
+  type MappedImage,
+  type MappedLink,
+  type FootnoteLink,
+  type TranslatedDocument,
+  translate,
+  translateDocument,
+} from './translate.js'
+export { type PageContext, type PageMetadata, defaultMapFrontMatter } from './page.js'
+export { type FrontMatter } from './markdown.js'
+export { type RenderContext, type BlockSource, toMarkdown } from './render.js'
+export { type Retryable, type Checkpoint, ExecuteError } from '@yubrot/notion-flexible-blocks'
+
+/**
+ * A block created in Notion, with the position in the markdown document it is translated from.
+ */
+export interface SourceMappedBlock extends fb.CreatedBlock {
+  position?: Position
+  children?: SourceMappedBlock[]
+}
+
+/**
+ * A block created in Notion, with the position in the markdown document it is translated from.
+ * The IDs of nested blocks are not retrieved.
+ */
+export interface ShallowSourceMappedBlock extends fb.ShallowCreatedBlock {
+  position?: Position
+}
 
 /**
  * Create blocks in Notion from a markdown document.
  * This function may involve multiple Notion API calls.
+ * If footnotes are gathered into a section, the blocks containing footnotes are updated to link to each other.
+ * If `ctx.mapFrontMatter` is specified, the front matter of the document is mapped to the page `rootBlockId`.
  * @param client - Notion client
  * @param rootBlockId - The page or block ID to create blocks
  * @param markdownDocument - Markdown document
  * @param ctx - a context that specifies detailed behavior
+ * @returns The created blocks with their block IDs and positions in the markdown document. Nested blocks are given
+ * their IDs if `ctx.resolveIds` is true.
  */
 export async function create(
   client: Client,
   rootBlockId: string,
   markdownDocument: string,
-  ctx?: Partial<Context & { retryable?: fb.Retryable }>,
+  ctx: CreateContext & { resolveIds: true },
+): Promise<SourceMappedBlock[]>
+export async function create(
+  client: Client,
+  rootBlockId: string,
+  markdownDocument: string,
+  ctx?: CreateContext,
+): Promise<ShallowSourceMappedBlock[]>
+export async function create(
+  client: Client,
+  rootBlockId: string,
+  markdownDocument: string,
+  ctx?: CreateContext,
+): Promise<ShallowSourceMappedBlock[]> {
+  const { retryable, concurrency, resumeFrom, onCheckpoint, strategy, resolveIds, mapFrontMatter, ...rest } = ctx ?? {}
+  const linked = needsLinks(rest)
+  const options = { retryable, concurrency, resumeFrom, onCheckpoint, strategy, resolveIds: resolveIds || linked }
+  const { blocks, position, footnoteLink, frontMatter } = await translateWithPositions(markdownDocument, rest)
+  // The page is updated first, so that invalid properties are reported before any block is created
+  const metadata = frontMatter && mapFrontMatter && (await mapFrontMatter(frontMatter))
+  if (metadata) await updatePage(client, rootBlockId, metadata, retryable ?? fb.defaultRetryable)
+  const created = withPositions(blocks, await fb.create(client, rootBlockId, blocks, options), position)
+  if (linked) {
+    const pageUrl = () => containingPageUrl(client, rootBlockId, retryable ?? fb.defaultRetryable)
+    await linkFootnotes(client, pageUrl, created, footnoteLink, retryable ?? fb.defaultRetryable)
+  }
+  return created
+}
+
+type CreateContext = Partial<Context & PageContext & fb.ExecuteOptions & Pick<fb.PlanOptions, 'strategy'>>
+
+/**
+ * A page created in Notion, with the blocks created in it.
+ */
+export interface SourceMappedPage<B extends ShallowSourceMappedBlock = SourceMappedBlock> extends fb.CreatedPage<B> {
+  children: B[]
+}
+
+/**
+ * Create a page in Notion from a markdown document.
+ * The front matter of the document is mapped to the page by `ctx.mapFrontMatter`, which defaults to
+ * {@link defaultMapFrontMatter}. The properties, the icon and the cover in `page` take precedence over the mapped ones.
+ * Property values are checked against the schema of the parent database before the page is created.
+ * This function involves multiple Notion API calls.
+ * @param client - Notion client
+ * @param page - The parent of the page, and optionally its properties, icon and cover
+ * @param markdownDocument - Markdown document
+ * @param ctx - a context that specifies detailed behavior
+ * @returns The created page, with the created blocks and their positions in the markdown document. Nested blocks are
+ * given their IDs if `ctx.resolveIds` is true.
+ * @throws fb.InvalidPropertyError if a property value does not match the schema.
+ */
+export async function createPage(
+  client: Client,
+  page: fb.PageOptions,
+  markdownDocument: string,
+  ctx: CreatePageContext & { resolveIds: true },
+): Promise<SourceMappedPage>
+export async function createPage(
+  client: Client,
+  page: fb.PageOptions,
+  markdownDocument: string,
+  ctx?: CreatePageContext,
+): Promise<SourceMappedPage<ShallowSourceMappedBlock>>
+export async function createPage(
+  client: Client,
+  page: fb.PageOptions,
+  markdownDocument: string,
+  ctx?: CreatePageContext,
+): Promise<SourceMappedPage<ShallowSourceMappedBlock>> {
+  const { retryable, concurrency, strategy, resolveIds, mapFrontMatter = defaultMapFrontMatter, ...rest } = ctx ?? {}
+  const linked = needsLinks(rest)
+  const options = { retryable, concurrency, strategy, resolveIds: resolveIds || linked }
+  const { blocks, position, footnoteLink, frontMatter } = await translateWithPositions(markdownDocument, rest)
+  const metadata = (frontMatter && (await mapFrontMatter(frontMatter))) ?? {}
+  const created = await fb.createPage(
+    client,
+    {
+      icon: metadata.icon ?? undefined,
+      cover: metadata.cover ?? undefined,
+      ...page,
+      properties: toProperties(metadata, page.properties),
+    },
+    blocks,
+    options,
+  )
+  const children = withPositions(blocks, created.children, position)
+  if (linked) {
+    const pageUrl = async () => created.url
+    await linkFootnotes(client, pageUrl, children, footnoteLink, retryable ?? fb.defaultRetryable)
+  }
+  return { ...created, children }
+}
+
+type CreatePageContext = Partial<Context & PageContext & fb.CreatePageOptions>
+
+// Footnotes gathered into a section are linked by the IDs of the blocks containing them, including nested ones
+function needsLinks(ctx: Partial<Context>): boolean {
+  return (ctx.footnotes ?? 'inline') != 'inline'
+}
+
+function withPositions<B extends fb.Block>(
+  blocks: fb.Block[],
+  created: B[],
+  position: (block: fb.Block) => Position | undefined,
+): (B & { position?: Position })[] {
+  return created.map((c, i) => ({
+    ...c,
+    position: position(blocks[i]),
+    children: c.children && withPositions(blocks[i].children ?? [], c.children, position),
+  }))
+}
+
+type IdentifiedBlock = fb.Block & { id?: string }
+
+// Notion blocks can be linked only by their IDs, so footnote links are added after the blocks are created
+async function linkFootnotes(
+  client: Client,
+  pageUrl: () => Promise<string>,
+  created: IdentifiedBlock[],
+  footnoteLink: (item: InlineData) => FootnoteLink | undefined,
+  retryable: fb.Retryable,
 ) {
-  const { retryable, ...rest } = ctx ?? {}
-  return await fb.create(client, rootBlockId, await translate(markdownDocument, rest), retryable ?? fb.defaultRetryable)
+  const notes = new Map<number, string>()
+  const references = new Map<number, string>()
+  const targets: { id: string; data: fb.Block['data'] }[] = []
+  const visit = (blocks: IdentifiedBlock[]) => {
+    for (const { id, data, children } of blocks) {
+      // Nested blocks are given IDs only if the IDs are resolved
+      if (!id) continue
+      const links = richTextsOf(data)
+        .flat()
+        .flatMap(item => footnoteLink(item) ?? [])
+      for (const { number, to } of links) {
+        if (to == 'reference') notes.set(number, id)
+        else if (!references.has(number)) references.set(number, id)
+      }
+      if (links.length) targets.push({ id, data })
+      visit(children ?? [])
+    }
+  }
+  visit(created)
+  if (!targets.length) return
+
+  const url = await pageUrl()
+  const link = (item: InlineData): InlineData => {
+    const footnote = footnoteLink(item)
+    const blockId = footnote && (footnote.to == 'note' ? notes : references).get(footnote.number)
+    if (!blockId || item.type != 'text') return item
+    return { ...item, text: { ...item.text, link: { url: `${url}#${blockId.replaceAll('-', '')}` } } }
+  }
+  for (const { id, data } of targets) {
+    const body = mapRichTexts(data, richText => richText.map(link))
+    if (body) await retryable(() => client.blocks.update({ block_id: id, ...body }))
+  }
+}
+
+// Anchors work within a page, so footnotes are linked with the URL of the page containing the blocks
+async function containingPageUrl(client: Client, blockId: string, retryable: fb.Retryable): Promise<string> {
+  const retrieve = (blockId: string) => retryable(() => client.blocks.retrieve({ block_id: blockId }))
+  let block = await retrieve(blockId)
+  while (isFullBlock(block) && block.type != 'child_page' && block.parent.type == 'block_id') {
+    block = await retrieve(block.parent.block_id)
+  }
+  if (isFullBlock(block) && block.type != 'child_page' && block.parent.type == 'page_id') {
+    return fb.toPageUrl(block.parent.page_id)
+  }
+  return fb.toPageUrl(block.id)
+}
+
+type InlineData = fb.Inline['data']
+
+// Footnote markers appear in the rich texts of these blocks
+function mapRichTexts(data: fb.Block['data'], f: (richText: InlineData[]) => InlineData[]) {
+  switch (data.type) {
+    case 'paragraph':
+      return { paragraph: { rich_text: f(data.paragraph.rich_text) } }
+    case 'heading_1':
+      return { heading_1: { rich_text: f(data.heading_1.rich_text) } }
+    case 'heading_2':
+      return { heading_2: { rich_text: f(data.heading_2.rich_text) } }
+    case 'heading_3':
+      return { heading_3: { rich_text: f(data.heading_3.rich_text) } }
+    case 'bulleted_list_item':
+      return { bulleted_list_item: { rich_text: f(data.bulleted_list_item.rich_text) } }
+    case 'numbered_list_item':
+      return { numbered_list_item: { rich_text: f(data.numbered_list_item.rich_text) } }
+    case 'to_do':
+      return { to_do: { rich_text: f(data.to_do.rich_text) } }
+    case 'quote':
+      return { quote: { rich_text: f(data.quote.rich_text) } }
+    case 'callout':
+      return { callout: { rich_text: f(data.callout.rich_text) } }
+    case 'toggle':
+      return { toggle: { rich_text: f(data.toggle.rich_text) } }
+    case 'table_row':
+      return { table_row: { cells: data.table_row.cells.map(f) } }
+    default:
+      return null
+  }
+}
+
+function richTextsOf(data: fb.Block['data']): InlineData[][] {
+  const richTexts: InlineData[][] = []
+  mapRichTexts(data, richText => {
+    richTexts.push(richText)
+    return richText
+  })
+  return richTexts
 }
@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest'
-import { parseMarkdownDocument, expandHtmlStructure, type HtmlTag } from './markdown.js'
-import type { Node, Html } from 'mdast'
+import { parseMarkdownDocument, expandHtmlStructure, parseFrontMatter, type HtmlTag } from './markdown.js'
+import type { Node, Html, Yaml, Toml } from 'mdast'
 
 describe('expandHtmlStructure', () => {
   function expand<T extends Node>(nodes: (T | Html)[]): (T | Html | HtmlTag<T>)[] {
@@ -192,3 +192,20 @@ bar</span> baz
     })
   }
 })
+
+describe('parseFrontMatter', () => {
+  const yaml = (value: string): Yaml => ({ type: 'yaml', value })
+  const toml = (value: string): Toml => ({ type: 'toml', value })
+
+  it('parses YAML and TOML mappings', () => {
+    expect(parseFrontMatter(yaml('title: foo\ntags:\n  - a\n  - b'))).toEqual({ title: 'foo', tags: ['a', 'b'] })
+    expect(parseFrontMatter(toml('title = "foo"\ntags = ["a", "b"]'))).toEqual({ title: 'foo', tags: ['a', 'b'] })
+    expect(parseFrontMatter(yaml(''))).toEqual({})
+  })
+
+  it('rejects malformed front matter', () => {
+    expect(() => parseFrontMatter(yaml('title: ['))).toThrow()
+    expect(() => parseFrontMatter(toml('title ='))).toThrow()
+    expect(() => parseFrontMatter(yaml('- a\n- b'))).toThrow('Front matter must be a mapping')
+  })
+})
@@ -2,14 +2,68 @@ import { Parser as HtmlParser } from 'htmlparser2'
 import { unified, type Processor as MdProcessor } from 'unified'
 import remarkParse from 'remark-parse'
 import remarkGfm from 'remark-gfm'
+import remarkMath from 'remark-math'
+import remarkFrontmatter from 'remark-frontmatter'
+import { parse as parseYaml } from 'yaml'
+import { parse as parseToml } from 'smol-toml'
 import type * as md from 'mdast'
 
-const mdProcessor: MdProcessor<md.Root, undefined, md.Root | undefined> = unified().use(remarkParse).use(remarkGfm)
+declare module 'mdast' {
+  // remark-frontmatter produces TOML nodes, but mdast only declares YAML nodes
+  interface Toml extends Literal {
+    type: 'toml'
+  }
+
+  interface FrontmatterContentMap {
+    toml: Toml
+  }
+
+  interface RootContentMap {
+    toml: Toml
+  }
+}
 
-export function parseMarkdownDocument(content: string): md.RootContent[] {
-  return mdProcessor.parse(content).children
+function mdProcessor(singleDollarTextMath: boolean): MdProcessor<md.Root, undefined, md.Root | undefined> {
+  return unified()
+    .use(remarkParse)
+    .use(remarkGfm)
+    .use(remarkMath, { singleDollarTextMath })
+    .use(remarkFrontmatter, ['yaml', 'toml'])
 }
 
+const mdProcessors = { singleDollar: mdProcessor(true), doubleDollar: mdProcessor(false) }
+
+export interface ParseOptions {
+  /**
+   * If true, `$...$` is parsed as inline math as well as `$$...$$`.
+   */
+  singleDollarTextMath?: boolean
+}
+
+export function parseMarkdownDocument(content: string, options?: ParseOptions): md.RootContent[] {
+  const processor = options?.singleDollarTextMath ? mdProcessors.singleDollar : mdProcessors.doubleDollar
+  return processor.parse(content).children
+}
+
+/**
+ * Metadata of a markdown document, written in the YAML or TOML front matter.
+ */
+export type FrontMatter = Record<string, unknown>
+
+/**
+ * Parse the content of a front matter node.
+ * @throws If the content is malformed or is not a mapping.
+ */
+export function parseFrontMatter(node: md.Yaml | md.Toml): FrontMatter {
+  const data: unknown = node.type == 'yaml' ? parseYaml(node.value) : parseToml(node.value)
+  // An empty YAML document is parsed as null
+  if (data == null) return {}
+  if (typeof data != 'object' || Array.isArray(data)) throw new Error('Front matter must be a mapping')
+  return data as FrontMatter
+}
+
+export type Position = NonNullable<md.Node['position']>
+
 /**
  * An HTML tag containing Markdown elements internally.
  */
@@ -18,6 +72,7 @@ export interface HtmlTag<T extends md.Node> {
   tag: string
   attrs: Record<string, string>
   children: (T | md.Html | HtmlTag<T>)[]
+  position?: Position
 }
 
 // Note that it is generally not type-safe
@@ -36,14 +91,24 @@ export function expandHtmlStructure<T extends md.Node>(nodes: (T | md.Html)[]):
     }
   }
 
+  // Positions of HTML tags are approximated by the positions of the HTML nodes that contain them
+  let position: Position | undefined
   const htmlParser = new HtmlParser({
-    ontext: text => !/^\s*$/.test(text) && children().push({ type: 'html', value: text }),
-    onopentag: (name, attrs) => containerTags.unshift({ type: 'htmlTag', tag: name, attrs, children: [] }),
-    onclosetag: name => completeContainerTag(containerTags.findIndex(f => f.tag == name) + 1),
+    ontext: text => !/^\s*$/.test(text) && children().push({ type: 'html', value: text, position }),
+    // Comments are kept as they are, since they may be used as markers
+    oncomment: data => children().push({ type: 'html', value: `<!--${data}-->`, position }),
+    onopentag: (name, attrs) =>
+      containerTags.unshift({ type: 'htmlTag', tag: name, attrs, children: [], position: position && { ...position } }),
+    onclosetag: name => {
+      const num = containerTags.findIndex(f => f.tag == name) + 1
+      for (const tag of containerTags.slice(0, num)) if (tag.position && position) tag.position.end = position.end
+      completeContainerTag(num)
+    },
   })
 
   for (const node of nodes) {
     if (isHtmlNode(node)) {
+      position = node.position
       htmlParser.write(node.value)
     } else {
       children().push(node)
@@ -0,0 +1,96 @@
+import type { Client, UpdatePageParameters } from '@notionhq/client'
+import * as fb from '@yubrot/notion-flexible-blocks'
+import type { FrontMatter } from './markdown.js'
+
+/**
+ * Properties of a page that the front matter of a markdown document is mapped to.
+ */
+export interface PageMetadata {
+  /**
+   * The title of the page. This is set to the title property, whatever its name is.
+   */
+  title?: string
+  icon?: UpdatePageParameters['icon']
+  cover?: UpdatePageParameters['cover']
+  /**
+   * Other properties of the page, such as the properties of a database page.
+   */
+  properties?: fb.PageProperties
+}
+
+export interface PageContext {
+  /**
+   * This callback is invoked when the document has front matter; you can map the front matter to properties of the
+   * page through this callback. The page is not updated if null is returned.
+   */
+  mapFrontMatter: (frontMatter: FrontMatter) => Promise<PageMetadata | null>
+}
+
+/**
+ * Map the `title`, `icon` and `cover` fields of the front matter to the page.
+ * `icon` is either an emoji or an image URL, and is ignored otherwise. `cover` is an image URL.
+ * Other fields such as `tags` and `owner` are not mapped, since the properties they correspond to depend on the schema
+ * of the database. Map them in `mapFrontMatter` along with the result of this function.
+ */
+export async function defaultMapFrontMatter(frontMatter: FrontMatter): Promise<PageMetadata> {
+  const { title, icon, cover } = frontMatter
+  return {
+    title: typeof title == 'string' ? title : undefined,
+    icon: typeof icon == 'string' ? toIcon(icon) : undefined,
+    cover: typeof cover == 'string' ? external(cover) : undefined,
+  }
+}
+
+function toIcon(icon: string): PageMetadata['icon'] {
+  if (isUrl(icon)) return external(icon)
+  return isEmoji(icon) ? { emoji: icon } : undefined
+}
+
+type Emoji = Extract<NonNullable<UpdatePageParameters['icon']>, { emoji: unknown }>['emoji']
+
+// A single grapheme of an emoji, such as 🚀, 👍🏽 or 🇯🇵
+function isEmoji(s: string): s is Emoji {
+  return [...new Intl.Segmenter().segment(s)].length == 1 && /\p{Extended_Pictographic}|\p{Regional_Indicator}/u.test(s)
+}
+
+function external(url: string) {
+  return { type: 'external' as const, external: { url } }
+}
+
+function isUrl(s: string): boolean {
+  return /^https?:\/\//.test(s)
+}
+
+/**
+ * Update the properties of the page.
+ */
+export async function updatePage(
+  client: Client,
+  pageId: string,
+  metadata: PageMetadata,
+  retryable: fb.Retryable,
+): Promise<void> {
+  const { icon, cover } = metadata
+  await retryable(() => client.pages.update({ page_id: pageId, icon, cover, properties: toProperties(metadata) }))
+}
+
+/**
+ * Get the properties of the page, including the title. `overrides` take precedence over the metadata.
+ */
+export function toProperties(metadata: PageMetadata, overrides?: fb.PageProperties): fb.PageProperties {
+  // The title property can be referred to by the ID `title` in any page
+  const title: fb.PageProperties =
+    metadata.title != null ? { title: { title: fb.text(metadata.title).map(c => c.data) } } : {}
+  return [metadata.properties ?? {}, title, overrides ?? {}].reduce(mergeProperties, {})
+}
+
+// A page has only one title property, which may be referred to by its name as well as by its ID
+function mergeProperties(properties: fb.PageProperties, overrides: fb.PageProperties): fb.PageProperties {
+  const overridesTitle = Object.values(overrides).some(isTitle)
+  const kept = Object.entries(properties).filter(([, value]) => !(overridesTitle && isTitle(value)))
+  return { ...Object.fromEntries(kept), ...overrides }
+}
+
+function isTitle(value: fb.PageProperties[string]): boolean {
+  return value != null && typeof value == 'object' && 'title' in value
+}
@@ -0,0 +1,290 @@
+import { describe, it, expect } from 'vitest'
+import { toMarkdown, type BlockSource, type RenderContext } from './render.js'
+import { translate } from './translate.js'
+import * as fb from '@yubrot/notion-flexible-blocks'
+
+describe('toMarkdown', () => {
+  const alert = (text: string, color: fb.Color, icon: fb.Icon) => fb.callout(fb.text(text), [], { color, icon })
+
+  const context: Partial<RenderContext> = {
+    mapLink: async link => {
+      if (typeof link == 'string') return link
+      if (link.mention == 'f2811268781747febb9689fe95dbe93d') return './mention.md'
+      return null
+    },
+  }
+
+  const testcases = [
+    {
+      title: 'headings and paragraphs',
+      input: [
+        fb.heading1(fb.text('Heading 1')),
+        fb.paragraph(fb.text('paragraph 1')),
+        fb.heading2(fb.text('Heading 2')),
+        fb.heading3(fb.text('Heading 3')),
+        fb.space,
+        fb.paragraph(fb.text('paragraph 2\ncontinues')),
+      ],
+      output: `
+# Heading 1
+
+paragraph 1
+
+## Heading 2
+
+### Heading 3
+
+paragraph 2
+continues
+`,
+    },
+    {
+      title: 'text',
+      input: fb.toBlocks([
+        ...fb.text('Default '),
+        ...fb.text('Italic', { italic: true }),
+        ...fb.text(' '),
+        ...fb.text('Bold ', { bold: true }),
+        ...fb.text('and italic', { bold: true, italic: true }),
+        ...fb.text(' '),
+        ...fb.text('Code', { code: true }),
+        ...fb.text(' '),
+        ...fb.text('Strikethrough', { strikethrough: true }),
+        ...fb.text(' '),
+        ...fb.text('Underline', { underline: true }),
+        ...fb.text(' *escaped* [text]'),
+      ]),
+      output: `
+Default *Italic* **Bold *and italic*** \`Code\` ~~Strikethrough~~ <u>Underline</u> \\*escaped\\* \\[text\\]
+`,
+    },
+    {
+      title: 'line starts',
+      input: [fb.paragraph(fb.text('# not a heading\n- not a list\n1. not a list'))],
+      output: `
+\\# not a heading
+\\- not a list
+1\\. not a list
+`,
+    },
+    {
+      title: 'link and mention',
+      input: fb.toBlocks([
+        ...fb.text('link1 ').map(b => fb.mapLink(b, () => 'https://example.com/hello')),
+        ...fb.text('emphasis', { italic: true }).map(b => fb.mapLink(b, () => 'https://example.com/hello')),
+        ...fb.text(' '),
+        fb.mention('f2811268781747febb9689fe95dbe93d', { bold: true }),
+      ]),
+      output: `
+[link1 *emphasis*](https://example.com/hello) [**./mention.md**](./mention.md)
+`,
+    },
+    {
+      title: 'lists',
+      input: [
+        fb.bulletedListItem(fb.text('foo')),
+        fb.bulletedListItem(fb.text('bar'), [
+          fb.bulletedListItem(fb.text('hoge')),
+          fb.bulletedListItem(fb.text('fuga'), [fb.code('includes code block'), fb.paragraph(fb.text('paragraph'))]),
+        ]),
+        fb.numberedListItem(fb.text('x')),
+        fb.numberedListItem(fb.text('y'), [fb.numberedListItem(fb.text('y-1'))]),
+        fb.toDo(true, fb.text('done')),
+        fb.toDo(false, fb.text('todo')),
+      ],
+      output: `
+- foo
+- bar
+  - hoge
+  - fuga
+
+    \`\`\`
+    includes code block
+    \`\`\`
+
+    paragraph
+
+1. x
+2. y
+   1. y-1
+
+- [x] done
+- [ ] todo
+`,
+    },
+    {
+      title: 'code block, divider, blockquote',
+      input: [
+        fb.code("console.log('```')", 'ts'),
+        fb.divider,
+        fb.quote(fb.text('This is a blockquote'), [fb.paragraph(fb.text('blockquote continues'))]),
+      ],
+      output: `
+\`\`\`\`typescript
+console.log('\`\`\`')
+\`\`\`\`
+
+---
+
+> This is a blockquote
+>
+> blockquote continues
+`,
+    },
+    {
+      title: 'GitHub alerts',
+      input: [
+        alert('Useful information.', 'blue_background', { emoji: 'ℹ️' }),
+        alert('Advises about risks.', 'red_background', { emoji: '🛑' }),
+        fb.callout(fb.text('Plain callout')),
+      ],
+      output: `
+> [!NOTE]
+> Useful information.
+
+> [!CAUTION]
+> Advises about risks.
+
+> Plain callout
+`,
+    },
+    {
+      title: 'toggle',
+      input: [
+        fb.toggle([...fb.text('toggle '), ...fb.text('title', { italic: true })], [fb.paragraph(fb.text('body'))]),
+        fb.toggle([], [fb.paragraph(fb.text('body only'))]),
+      ],
+      output: `
+<details>
+<summary>
+
+toggle *title*
+
+</summary>
+
+body
+
+</details>
+
+<details>
+
+body only
+
+</details>
+`,
+    },
+    {
+      title: 'table',
+      input: [
+        fb.table(3, [
+          fb.tableRow([fb.text('Header 1'), fb.text('Header 2'), fb.text('Header 3')]),
+          fb.tableRow([fb.text('Cell | 1'), fb.text('Cell\n2'), []]),
+        ]),
+      ],
+      output: `
+| Header 1 | Header 2 | Header 3 |
+| --- | --- | --- |
+| Cell \\| 1 | Cell<br>2 |  |
+`,
+    },
+    {
+      title: 'media',
+      input: [
+        ...fb.image({
+          external: { url: 'https://example.com/image.png' },
+          caption: fb.text('caption').map(i => i.data),
+        }),
+        ...fb.audio({ type: 'file_upload', file_upload: { id: '604184d7-f31b-4961-99ca-67fff9764bb0' } }),
+        ...fb.embed({ url: 'https://example.com/embed' }),
+      ],
+      output: `
+![caption](https://example.com/image.png)
+
+<iframe src="https://example.com/embed"></iframe>
+`,
+    },
+    {
+      title: 'block object responses',
+      input: [
+        {
+          object: 'block',
+          id: '0',
+          type: 'bulleted_list_item',
+          bulleted_list_item: {
+            rich_text: [
+              {
+                type: 'text',
+                text: { content: 'item', link: null },
+                annotations: { bold: true },
+                plain_text: 'item',
+                href: null,
+              },
+              {
+                type: 'mention',
+                mention: { type: 'page', page: { id: 'f2811268781747febb9689fe95dbe93d' } },
+                annotations: {},
+                plain_text: 'Page title',
+                href: 'https://www.notion.so/f2811268781747febb9689fe95dbe93d',
+              },
+            ],
+          },
+          children: [{ object: 'block', id: '1', type: 'child_page', child_page: { title: 'Child page' } }],
+        } as unknown as BlockSource,
+      ],
+      output: `
+- **item**[Page title](./mention.md)
+`,
+    },
+  ]
+
+  for (const { title, input, output } of testcases) {
+    it(title, async () => {
+      const result = await toMarkdown(input, context)
+      expect(result).toBe(output.trimStart())
+    })
+  }
+
+  it('passes block object responses not supported by the API to onUnsupportedBlock', async () => {
+    const input = [
+      { object: 'block', id: '0', type: 'unsupported', unsupported: {} },
+      {
+        object: 'block',
+        id: '1',
+        type: 'image',
+        image: { type: 'file', file: { url: 'https://example.com/hosted.png', expiry_time: '' }, caption: [] },
+      },
+    ] as unknown as BlockSource[]
+    const unsupported: BlockSource[] = []
+    const result = await toMarkdown(input, {
+      ...context,
+      onUnsupportedBlock: async block => {
+        unsupported.push(block)
+        return '(unsupported)'
+      },
+    })
+    expect(unsupported).toEqual([input[0]])
+    expect(result).toBe('(unsupported)\n\n![](https://example.com/hosted.png)\n')
+  })
+
+  it('round trips through translate', async () => {
+    const blocks = [
+      fb.heading2(fb.text('Heading')),
+      fb.paragraph([
+        ...fb.text('foo '),
+        ...fb.text('bar', { bold: true }),
+        ...fb.text(' * baz '),
+        ...fb.text('qux', { underline: true }),
+      ]),
+      fb.bulletedListItem(fb.text('item'), [fb.toDo(true, fb.text('done'), [])]),
+      fb.toggle([...fb.text('toggle '), ...fb.text('title', { italic: true })], [fb.paragraph(fb.text('body'))]),
+      fb.code('const a = 1', 'typescript'),
+      fb.code('const b = 2', 'typescript', { caption: fb.text('src/b.ts') }),
+      fb.paragraph([...fb.text('costs $5: '), fb.equation('x^2')]),
+      fb.equationBlock('E = mc^2'),
+      alert('Useful information.', 'blue_background', { emoji: 'ℹ️' }),
+      fb.table(2, [fb.tableRow([fb.text('a'), fb.text('b')]), fb.tableRow([fb.text('c'), fb.text('d')])]),
+    ]
+    const result = await translate(await toMarkdown(blocks))
+    expect(result).toEqual(blocks)
+  })
+})
@@ -0,0 +1,396 @@
+import type { BlockObjectResponse } from '@notionhq/client/build/src/api-endpoints.js'
+import * as fb from '@yubrot/notion-flexible-blocks'
+import { GITHUB_ALERT_PREFIX, type MappedImage, type MappedLink } from './translate.js'
+
+export interface RenderContext {
+  /**
+   * The reverse of `Context.mapLink`. This callback is invoked when the renderer finds a link or a mention; you can
+   * map a URL or a mention to any path (such as a relative path to another Markdown document) through this callback.
+   * If null is returned, the link is dropped and only its text is kept.
+   */
+  mapLink: (link: MappedLink) => Promise<string | null>
+
+  /**
+   * Image version of `mapLink`.
+   * If null is returned, the media is dropped.
+   */
+  mapImage: (image: MappedImage) => Promise<string | null>
+
+  // You can override the behavior for blocks that cannot be represented in Markdown (unsupported blocks, etc.)
+  onUnsupportedBlock: (block: BlockSource, r: Renderer) => Promise<string>
+}
+
+/**
+ * Either a `Block` or a Notion block object response. Since block object responses do not contain their children,
+ * the children can be attached to the `children` property.
+ */
+export type BlockSource = fb.Block | (BlockObjectResponse & { children?: BlockSource[] })
+
+/**
+ * Render Notion blocks to a GFM Markdown document.
+ */
+export async function toMarkdown(blocks: BlockSource[], ctx?: Partial<RenderContext>): Promise<string> {
+  const document = await new Renderer(ctx).blocks(blocks)
+  return document ? `${document}\n` : ''
+}
+
+type InlineData = fb.Inline['data']
+
+interface Segment {
+  text: string
+  raw: boolean
+  marks: Mark[]
+}
+
+type Mark = { type: 'link'; url: string } | { type: 'bold' | 'italic' | 'strikethrough' | 'underline' }
+
+class Renderer {
+  private readonly ctx: RenderContext
+  // Plain texts of rich text items are response-only, but they are the titles of mentions
+  private readonly plainTexts = new WeakMap<object, string>()
+
+  constructor(ctx?: Partial<RenderContext>) {
+    this.ctx = { ...defaultRenderContext(), ...ctx }
+  }
+
+  async blocks(srcs: BlockSource[]): Promise<string> {
+    const blocks = srcs.map(src => this.#data(src))
+    const rendered = await Promise.all(srcs.map((src, i) => this.#block(src, blocks[i], listItemNumber(blocks, i))))
+
+    let ret = ''
+    for (let i = 0; i < blocks.length; ++i) {
+      if (!rendered[i]) continue
+      if (ret) ret += isTightListItem(blocks[i - 1], blocks[i]) ? '\n' : '\n\n'
+      ret += rendered[i]
+    }
+    return ret
+  }
+
+  async #block(block: BlockSource, d: fb.Block['data'] | null, number: number): Promise<string> {
+    switch (d?.type) {
+      case 'paragraph':
+        return await this.#join(await this.inlines(d.paragraph.rich_text), block.children)
+      case 'heading_1':
+        return await this.#join(`# ${await this.inlines(d.heading_1.rich_text, { newline: ' ' })}`, block.children)
+      case 'heading_2':
+        return await this.#join(`## ${await this.inlines(d.heading_2.rich_text, { newline: ' ' })}`, block.children)
+      case 'heading_3':
+        return await this.#join(`### ${await this.inlines(d.heading_3.rich_text, { newline: ' ' })}`, block.children)
+      case 'bulleted_list_item':
+        return await this.#listItem('- ', d.bulleted_list_item.rich_text, block.children)
+      case 'numbered_list_item':
+        return await this.#listItem(`${number}. `, d.numbered_list_item.rich_text, block.children)
+      case 'to_do':
+        return await this.#listItem(d.to_do.checked ? '- [x] ' : '- [ ] ', d.to_do.rich_text, block.children)
+      case 'quote':
+        return prefixLines('> ', await this.#join(await this.inlines(d.quote.rich_text), block.children))
+      case 'callout': {
+        // Callouts with the color of GitHub alerts are rendered as GitHub alerts
+        const alert = GITHUB_ALERT_PREFIX.find(([, style]) => style.color == d.callout.color)
+        const contents = await this.#join(await this.inlines(d.callout.rich_text), block.children)
+        return prefixLines('> ', alert ? `${alert[0]}${contents}` : contents)
+      }
+      case 'toggle':
+        return await this.#details(d.toggle.rich_text, block.children)
+      case 'code': {
+        const fence = '`'.repeat(Math.max(3, ...(codeOf(d.code.rich_text).match(/`+/g) || []).map(s => s.length + 1)))
+        const lang = d.code.language == 'plain text' ? '' : d.code.language
+        // A single-line caption is rendered as a file name after the language, such as `ts:src/index.ts`
+        const caption = codeOf(d.code.caption ?? [])
+        const info = caption && !/[\s`]/.test(caption) ? `${lang}:${caption}` : lang
+        return `${fence}${info}\n${codeOf(d.code.rich_text)}\n${fence}`
+      }
+      case 'equation':
+        return `$$\n${d.equation.expression}\n$$`
+      case 'divider':
+        return '---'
+      case 'table':
+        return await this.#table(block.children || [])
+      case 'embed':
+        return `<iframe src="${escapeHtml(d.embed.url)}"></iframe>`
+      case 'bookmark': {
+        const url = await this.ctx.mapLink(d.bookmark.url)
+        return url ? `<${url}>` : ''
+      }
+      case 'image':
+        return await this.#media('image', d.image)
+      case 'video':
+        return await this.#media('video', d.video)
+      case 'pdf':
+        return await this.#media('pdf', d.pdf)
+      case 'audio':
+        return await this.#media('audio', d.audio)
+      case 'file':
+        return await this.#media('file', d.file)
+      case 'link_to_page': {
+        const link = d.link_to_page
+        const id = 'page_id' in link ? link.page_id : 'database_id' in link ? link.database_id : null
+        const url = id && (await this.ctx.mapLink({ mention: id }))
+        return url ? `[${escapeText(url)}](${escapeUrl(url)})` : ''
+      }
+      case 'column_list':
+      case 'column':
+      case 'template':
+      case 'synced_block':
+        return await this.blocks(block.children || [])
+      case 'breadcrumb':
+      case 'table_of_contents':
+      case 'table_row':
+        return ''
+      default:
+        return await this.ctx.onUnsupportedBlock(block, this)
+    }
+  }
+
+  // Block object responses are converted in the same way as fetched blocks. Null if the block is not supported by the API
+  #data(src: BlockSource): fb.Block['data'] | null {
+    if (!('object' in src)) return src.data
+    const data = fb.fromBlockObjectResponse(src)
+    if (data) this.#keepPlainTexts(src, data)
+    return data
+  }
+
+  // The converted data has rich text items at the same keys as the response
+  #keepPlainTexts(response: unknown, data: unknown) {
+    if (typeof response != 'object' || response == null || typeof data != 'object' || data == null) return
+    if ('plain_text' in response && typeof response.plain_text == 'string' && 'annotations' in data) {
+      this.plainTexts.set(data, response.plain_text)
+    }
+    const values = new Map(Object.entries(response))
+    for (const [key, value] of Object.entries(data)) this.#keepPlainTexts(values.get(key), value)
+  }
+
+  async #join(head: string, children?: BlockSource[]): Promise<string> {
+    const body = await this.blocks(children || [])
+    return [head, body].filter(s => s).join('\n\n')
+  }
+
+  async #listItem(marker: string, richText: InlineData[], children?: BlockSource[]): Promise<string> {
+    const head = await this.inlines(richText)
+    const body = await this.blocks(children || [])
+    // Keep the list tight if the item is immediately followed by a nested list
+    const separator = children?.length && isListItem(this.#data(children[0])) ? '\n' : '\n\n'
+    const contents = [head, body].filter(s => s).join(separator)
+    const indent = ' '.repeat(marker.length)
+    return `${marker}${contents.replaceAll(/\n(?=.)/g, `\n${indent}`)}`
+  }
+
+  async #details(richText: InlineData[], children?: BlockSource[]): Promise<string> {
+    // Blank lines are necessary to make the contents of <summary> parsed as Markdown
+    const summary = await this.inlines(richText)
+    const body = await this.blocks(children || [])
+    return [
+      '<details>',
+      ...(summary ? ['<summary>', '', summary, '', '</summary>'] : []),
+      ...(body ? ['', body, ''] : []),
+      '</details>',
+    ].join('\n')
+  }
+
+  async #table(rows: BlockSource[]): Promise<string> {
+    const cellss: string[][] = []
+    for (const row of rows.map(src => this.#data(src))) {
+      if (row?.type != 'table_row') continue
+      const cells = await Promise.all(row.table_row.cells.map(cell => this.inlines(cell, { newline: '<br>' })))
+      cellss.push(cells.map(cell => cell.replaceAll('|', '\\|')))
+    }
+    if (!cellss.length) return ''
+
+    const width = cellss.reduce((max, cells) => Math.max(max, cells.length), 0)
+    const line = (cells: string[]) => `| ${Array.from({ length: width }, (_, i) => cells[i] || '').join(' | ')} |`
+    return [line(cellss[0]), line(new Array(width).fill('---')), ...cellss.slice(1).map(line)].join('\n')
+  }
+
+  async #media(type: fb.MediaType, content: fb.MediaContent): Promise<string> {
+    let image: MappedImage
+    if ('external' in content) image = { type, url: content.external.url }
+    else if ('file_upload' in content) image = { type, file: content.file_upload.id }
+    else return ''
+
+    const url = await this.ctx.mapImage(image)
+    if (!url) return ''
+    return `![${await this.inlines(content.caption || [], { newline: ' ' })}](${escapeUrl(url)})`
+  }
+
+  /**
+   * Render Notion's rich text as a Markdown inline content.
+   */
+  async inlines(items: InlineData[], options?: { newline?: string }): Promise<string> {
+    const segments = splitWhitespaces(await Promise.all(items.map(i => this.#segment(i))))
+
+    let ret = ''
+    const stack: Mark[] = []
+    for (const segment of [...segments, { text: '', raw: true, marks: [] }]) {
+      // Close marks that do not continue to this segment
+      let keep = 0
+      while (keep < stack.length && segment.marks.some(m => isSameMark(m, stack[keep]))) keep++
+      for (const mark of stack.splice(keep).reverse()) ret += closeMark(mark)
+
+      // Open marks that start from this segment
+      for (const mark of segment.marks) {
+        if (stack.some(m => isSameMark(m, mark))) continue
+        stack.push(mark)
+        ret += openMark(mark)
+      }
+      ret += segment.raw ? segment.text : escapeText(segment.text)
+    }
+    return escapeLineStarts(ret).replaceAll('\n', options?.newline ?? '\n')
+  }
+
+  async #segment(item: InlineData): Promise<Segment> {
+    const a = item.annotations || {}
+    const marks: Mark[] = []
+    const plainText = this.plainTexts.get(item) ?? null
+    let text: string
+    let raw = false
+
+    if ('text' in item) {
+      text = item.text.content
+      const url = item.text.link?.url && (await this.ctx.mapLink(item.text.link.url))
+      if (url) marks.push({ type: 'link', url })
+    } else if ('mention' in item) {
+      const id =
+        'page' in item.mention ? item.mention.page.id : 'database' in item.mention ? item.mention.database.id : null
+      const url = id && (await this.ctx.mapLink({ mention: id }))
+      text = plainText ?? url ?? ''
+      if (url) marks.push({ type: 'link', url })
+    } else if ('equation' in item) {
+      // `$$` is parsed as an inline equation regardless of `singleDollarTextMath`
+      text = `$$${item.equation.expression}$$`
+      raw = true
+    } else {
+      text = plainText ?? ''
+    }
+
+    if (a.code) {
+      text = codeSpan(text)
+      raw = true
+    }
+    if (a.bold) marks.push({ type: 'bold' })
+    if (a.italic) marks.push({ type: 'italic' })
+    if (a.strikethrough) marks.push({ type: 'strikethrough' })
+    if (a.underline) marks.push({ type: 'underline' })
+    return { text, raw, marks }
+  }
+}
+
+export function defaultRenderContext(): RenderContext {
+  return {
+    mapLink: async link => (typeof link == 'string' ? link : fb.toPageUrl(link.mention)),
+    mapImage: async image => {
+      if (typeof image == 'string') return image
+      if ('embed' in image) return image.embed
+      return image.url ?? null
+    },
+    onUnsupportedBlock: async () => '',
+  }
+}
+
+function listItemNumber(blocks: (fb.Block['data'] | null)[], index: number): number {
+  let number = 1
+  while (0 < index && blocks[index - 1]?.type == blocks[index]?.type) {
+    number++
+    index--
+  }
+  return number
+}
+
+function isListItem(data: fb.Block['data'] | null): boolean {
+  return ['bulleted_list_item', 'numbered_list_item', 'to_do'].includes(data?.type || '')
+}
+
+function isTightListItem(prev: fb.Block['data'] | null | undefined, data: fb.Block['data'] | null): boolean {
+  return !!prev && isListItem(data) && prev.type == data?.type
+}
+
+function prefixLines(prefix: string, s: string): string {
+  return s
+    .split('\n')
+    .map(line => (line ? `${prefix}${line}` : prefix.trimEnd()))
+    .join('\n')
+}
+
+function codeOf(richText: InlineData[]): string {
+  return richText.map(i => ('text' in i ? i.text.content : '')).join('')
+}
+
+function codeSpan(code: string): string {
+  const fence = '`'.repeat(Math.max(1, ...(code.match(/`+/g) || []).map(s => s.length + 1)))
+  const pad = code.startsWith('`') || code.endsWith('`') ? ' ' : ''
+  return `${fence}${pad}${code}${pad}${fence}`
+}
+
+// Emphasis delimiters cannot be placed next to whitespaces, so whitespaces at both ends of each segment are moved
+// out of the marks that are not shared with the neighboring segments.
+function splitWhitespaces(segments: Segment[]): Segment[] {
+  const pieces: (Segment & { whitespace?: boolean })[] = []
+  for (const segment of segments) {
+    if (segment.raw) {
+      pieces.push(segment)
+      continue
+    }
+    const [, lead, body, trail] = /^(\s*)(.*?)(\s*)$/s.exec(segment.text) || []
+    if (lead) pieces.push({ ...segment, text: lead, whitespace: true })
+    if (body) pieces.push({ ...segment, text: body })
+    if (trail) pieces.push({ ...segment, text: trail, whitespace: true })
+  }
+
+  return pieces.map((piece, i) => {
+    if (!piece.whitespace) return piece
+    const prev = pieces
+      .slice(0, i)
+      .reverse()
+      .find(p => !p.whitespace)
+    const next = pieces.slice(i + 1).find(p => !p.whitespace)
+    const marks = piece.marks.filter(m => [prev, next].every(p => p?.marks.some(n => isSameMark(m, n))))
+    return { text: piece.text, raw: false, marks }
+  })
+}
+
+function isSameMark(a: Mark, b: Mark): boolean {
+  return a.type == b.type && (a.type != 'link' || a.url == (b as typeof a).url)
+}
+
+function openMark(mark: Mark): string {
+  switch (mark.type) {
+    case 'link':
+      return '['
+    case 'bold':
+      return '**'
+    case 'italic':
+      return '*'
+    case 'strikethrough':
+      return '~~'
+    case 'underline':
+      return '<u>'
+  }
+}
+
+function closeMark(mark: Mark): string {
+  switch (mark.type) {
+    case 'link':
+      return `](${escapeUrl(mark.url)})`
+    case 'underline':
+      return '</u>'
+    default:
+      return openMark(mark)
+  }
+}
+
+function escapeText(text: string): string {
+  return text.replaceAll(/[\\`*_[\]<>~&$]/g, c => `\\${c}`)
+}
+
+function escapeLineStarts(text: string): string {
+  return text.replaceAll(/^([ \t]*)(?:([#+=-])|(\d+)([.)]))/gm, (_, ws, c, n, d) =>
+    c ? `${ws}\\${c}` : `${ws}${n}\\${d}`,
+  )
+}
+
+function escapeUrl(url: string): string {
+  return /[\s()<>]/.test(url) ? `<${url.replaceAll(/[<>]/g, c => encodeURIComponent(c))}>` : url
+}
+
+function escapeHtml(s: string): string {
+  return s.replaceAll('&', '&amp;').replaceAll('"', '&quot;').replaceAll('<', '&lt;').replaceAll('>', '&gt;')
+}
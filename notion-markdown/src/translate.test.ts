@@ -1,13 +1,9 @@
 import { describe, it, expect } from 'vitest'
-import { translate, type Context } from './translate.js'
+import { translate, translateDocument, translateWithPositions, type Context } from './translate.js'
 import * as fb from '@yubrot/notion-flexible-blocks'
 
 describe('translate', () => {
-  const alert = (text: string, color: (fb.Block['data'] & { type: 'callout' })['callout']['color']) => {
-    const co = fb.callout(fb.text(text), [])
-    if (co.data.type == 'callout') co.data.callout = { ...co.data.callout, color }
-    return co
-  }
+  const alert = (text: string, color: fb.Color, icon: fb.Icon) => fb.callout(fb.text(text), [], { color, icon })
 
   const context: Partial<Context> = {
     mapLink: async url => {
@@ -96,6 +92,26 @@ console.log('Hello, world!')
         fb.quote(fb.text('This is a blockquote'), [fb.paragraph(fb.text('blockquote continues'))]),
       ],
     },
+    {
+      title: 'math',
+      input: `
+Inline $$E = mc^2$$ and **$$a^2$$**, costs $5 and $10
+
+$$
+\\int_0^1 x \\, dx
+$$
+`,
+      output: [
+        fb.paragraph([
+          ...fb.text('Inline '),
+          fb.equation('E = mc^2'),
+          ...fb.text(' and '),
+          fb.equation('a^2', { bold: true }),
+          ...fb.text(', costs $5 and $10'),
+        ]),
+        fb.equationBlock('\\int_0^1 x \\, dx'),
+      ],
+    },
     {
       title: 'lists',
       input: `
@@ -175,6 +191,71 @@ foo [^1] bar [^2] baz
         fb.mention('f2811268781747febb9689fe95dbe93d', { bold: true }),
       ]),
     },
+    {
+      title: 'reference links and images',
+      input: `
+[full][hello] [collapsed][] [shortcut] [Mention][mention] ![image][img] [undefined][nowhere]
+
+[mention]
+
+[hello]: https://example.com/hello
+[Collapsed]: foo/bar
+[shortcut]: <https://example.com/shortcut> "Title"
+[mention]: /mention
+[img]: ./foo.png
+[hello]: https://example.com/ignored
+`,
+      output: fb.toBlocks([
+        fb.paragraph([
+          ...fb.text('full').map(b => fb.mapLink(b, () => 'https://example.com/hello')),
+          ...fb.text(' '),
+          ...fb.text('collapsed').map(b => fb.mapLink(b, () => 'https://example.com/foo/bar')),
+          ...fb.text(' '),
+          ...fb.text('shortcut').map(b => fb.mapLink(b, () => 'https://example.com/shortcut')),
+          ...fb.text(' '),
+          fb.mention('f2811268781747febb9689fe95dbe93d'),
+          ...fb.text(' '),
+        ]),
+        ...fb.image({ external: { url: 'https://example.com/foo.png' } }),
+        fb.paragraph(fb.text(' [undefined][nowhere]')),
+        fb.linkToPage({ page_id: 'f2811268781747febb9689fe95dbe93d' }),
+      ]),
+    },
+    {
+      title: 'link to page',
+      input: `
+[mention](/mention)
+
+[mention](/mention) in a paragraph
+
+[link](https://example.com/hello)
+`,
+      output: fb.toBlocks([
+        fb.linkToPage({ page_id: 'f2811268781747febb9689fe95dbe93d' }),
+        fb.paragraph([fb.mention('f2811268781747febb9689fe95dbe93d'), ...fb.text(' in a paragraph')]),
+        ...fb.text('link').map(b => fb.mapLink(b, () => 'https://example.com/hello')),
+      ]),
+    },
+    {
+      title: 'table of contents and breadcrumb',
+      input: `
+[[toc]]
+
+<!-- toc -->
+
+<!--breadcrumb-->
+
+<!-- comment -->
+
+- [[toc]] in a list
+`,
+      output: fb.toBlocks([
+        fb.tableOfContents(),
+        fb.tableOfContents(),
+        fb.breadcrumb,
+        fb.bulletedListItem(fb.text('[[toc]] in a list'), []),
+      ]),
+    },
     {
       title: 'media',
       input: `
@@ -266,6 +347,81 @@ toggle3 *title*
         fb.toggle([...fb.text('toggle3 '), ...fb.text('title', { italic: true })], [fb.paragraph(fb.text('hello'))]),
       ]),
     },
+    {
+      title: 'annotation tags',
+      input: `
+<u>underline</u> <mark>mark</mark> <mark style="background-color: blue">blue</mark>
+<span style="color: Red">red *text*</span> <span style="background: grey">gray</span> <span style="color: #123456">unknown</span>
+<time datetime="2025-01-01">Jan 1</time> **<time datetime="2025-01-01T09:00:00+09:00">9 AM</time>**
+`,
+      output: fb.toBlocks([
+        ...fb.text('underline', { underline: true }),
+        ...fb.text(' '),
+        ...fb.coloredText('mark', 'yellow_background'),
+        ...fb.text(' '),
+        ...fb.coloredText('blue', 'blue_background'),
+        ...fb.text('\n'),
+        ...fb.coloredText('red ', 'red'),
+        ...fb.coloredText('text', 'red', { italic: true }),
+        ...fb.text(' '),
+        ...fb.coloredText('gray', 'gray_background'),
+        ...fb.text(' '),
+        ...fb.text('unknown'),
+        ...fb.text('\n'),
+        fb.dateMention({ start: '2025-01-01' }),
+        ...fb.text(' '),
+        fb.dateMention({ start: '2025-01-01T09:00:00+09:00' }, { bold: true }),
+      ]),
+    },
+    {
+      title: 'columns',
+      input: `
+<div class="columns">
+<div class="column">
+
+## Left
+
+- item
+  - nested
+
+</div>
+<div class="column">
+
+Right
+
+</div>
+</div>
+
+- <div class="columns"><div class="column">only one column</div></div>
+      `,
+      output: [
+        fb.columnList([
+          fb.column([
+            fb.heading2(fb.text('Left')),
+            fb.bulletedListItem(fb.text('item'), [fb.bulletedListItem(fb.text('nested'), [])]),
+          ]),
+          fb.column([fb.paragraph(fb.text('Right'))]),
+        ]),
+        fb.bulletedListItem(fb.text('only one column'), []),
+      ],
+    },
+    {
+      title: 'template button',
+      input: `
+<template-button label="Add a checklist">
+
+- [ ] Step 1
+- [ ] Step 2
+
+</template-button>
+      `,
+      output: [
+        fb.toggle(fb.text('Add a checklist'), [
+          fb.toDo(false, fb.text('Step 1'), []),
+          fb.toDo(false, fb.text('Step 2'), []),
+        ]),
+      ],
+    },
     {
       title: 'mixed markdown with html',
       input: `
@@ -364,11 +520,15 @@ foo ![](https://example.com/image.png) bar
 > Advises about risks or negative outcomes of certain actions.
       `,
       output: fb.toBlocks([
-        alert('Useful information that users should know, even when skimming content.', 'blue_background'),
-        alert('Helpful advice for doing things better or more easily.', 'green_background'),
-        alert('Key information users need to know to achieve their goal.', 'purple_background'),
-        alert('Urgent info that needs immediate user attention to avoid problems.', 'brown_background'),
-        alert('Advises about risks or negative outcomes of certain actions.', 'red_background'),
+        alert('Useful information that users should know, even when skimming content.', 'blue_background', {
+          emoji: 'ℹ️',
+        }),
+        alert('Helpful advice for doing things better or more easily.', 'green_background', { emoji: '💡' }),
+        alert('Key information users need to know to achieve their goal.', 'purple_background', { emoji: '❗' }),
+        alert('Urgent info that needs immediate user attention to avoid problems.', 'brown_background', {
+          emoji: '⚠️',
+        }),
+        alert('Advises about risks or negative outcomes of certain actions.', 'red_background', { emoji: '🛑' }),
       ]),
     },
   ]
@@ -379,4 +539,184 @@ foo ![](https://example.com/image.png) bar
       expect(result).toEqual(output)
     })
   }
+
+  it('code languages and file names', async () => {
+    const input = `
+\`\`\`ts:src/index.ts
+const a: number = 1
+\`\`\`
+
+\`\`\`:main.py
+print(1)
+\`\`\`
+
+\`\`\`
+#!/bin/sh
+echo 1
+\`\`\`
+`
+    const caption = (filename: string) => ({ caption: fb.text(filename) })
+    expect(await translate(input)).toEqual([
+      fb.code('const a: number = 1', 'typescript', caption('src/index.ts')),
+      fb.code('print(1)', 'plain text', caption('main.py')),
+      fb.code('#!/bin/sh\necho 1', 'plain text'),
+    ])
+    expect(await translate(input, { guessCodeLanguage: true })).toEqual([
+      fb.code('const a: number = 1', 'typescript', caption('src/index.ts')),
+      fb.code('print(1)', 'python', caption('main.py')),
+      fb.code('#!/bin/sh\necho 1', 'shell'),
+    ])
+  })
+
+  it('single dollar math and long equations', async () => {
+    expect(await translate('$E = mc^2$ costs $5', { singleDollarTextMath: true })).toEqual([
+      fb.paragraph([fb.equation('E = mc^2'), ...fb.text(' costs $5')]),
+    ])
+
+    const long = 'x + '.repeat(250) + 'x'
+    expect(await translate(`$$${long}$$\n\n$$\n${long}\n$$\n`)).toEqual([
+      fb.paragraph(fb.text(long, { code: true })),
+      fb.paragraph(fb.text(long, { code: true })),
+    ])
+  })
+
+  it('gathers footnotes into a section', async () => {
+    const input = `
+foo [^b] bar **[^a]** baz [^b]
+
+[^a]: note a [^c]
+[^b]: note b
+
+    continues
+[^c]: note c
+[^unused]: unused note
+`
+    const notes = [
+      fb.paragraph([...fb.text('[1]'), ...fb.text(' '), ...fb.text('note b')]),
+      fb.paragraph(fb.text('continues')),
+      fb.paragraph([...fb.text('[2]'), ...fb.text(' '), ...fb.text('note a '), ...fb.text('[3]')]),
+      fb.paragraph([...fb.text('[3]'), ...fb.text(' '), ...fb.text('note c')]),
+      fb.paragraph([...fb.text('[4]'), ...fb.text(' '), ...fb.text('unused note')]),
+    ]
+    const body = fb.paragraph([
+      ...fb.text('foo '),
+      ...fb.text('[1]'),
+      ...fb.text(' bar '),
+      ...fb.text('[2]', { bold: true }),
+      ...fb.text(' baz '),
+      ...fb.text('[1]'),
+    ])
+
+    expect(await translate(input, { footnotes: 'divider' })).toEqual([body, fb.divider, ...notes])
+    expect(await translate(input, { footnotes: 'heading' })).toEqual([body, fb.heading2(fb.text('Notes')), ...notes])
+    expect(await translate(input, { footnotes: 'toggle', footnoteTitle: 'Footnotes' })).toEqual([
+      body,
+      fb.toggle(fb.text('Footnotes'), notes),
+    ])
+
+    const { blocks, footnoteLink } = await translateWithPositions(input, { footnotes: 'divider' })
+    const links = (block: fb.Block) =>
+      block.data.type == 'paragraph' ? block.data.paragraph.rich_text.map(item => footnoteLink(item)) : []
+    expect(links(blocks[0])).toEqual([
+      undefined,
+      { number: 1, to: 'note' },
+      undefined,
+      { number: 2, to: 'note' },
+      undefined,
+      { number: 1, to: 'note' },
+    ])
+    expect(links(blocks[4])).toEqual([{ number: 2, to: 'reference' }, undefined, undefined, { number: 3, to: 'note' }])
+
+    // Footnotes are not carried over to another document translated by the same translator
+    let translator: Parameters<Context['onUnsupportedHtmlTag']>[1] | undefined
+    const onUnsupportedHtmlTag: Context['onUnsupportedHtmlTag'] = async (_, t) => ((translator = t), [])
+    await translate('<unknown></unknown>', { footnotes: 'divider', onUnsupportedHtmlTag })
+    await translator?.document(input)
+    expect(await translator?.document('qux [^z]\n\n[^z]: note z\n')).toEqual([
+      fb.paragraph([...fb.text('qux '), ...fb.text('[1]')]),
+      fb.divider,
+      fb.paragraph([...fb.text('[1]'), ...fb.text(' '), ...fb.text('note z')]),
+    ])
+  })
+
+  it('parses front matter', async () => {
+    const yaml = `---
+title: Hello
+tags: [a, b]
+---
+
+# Heading
+`
+    expect(await translateDocument(yaml, context)).toEqual({
+      blocks: [fb.heading1(fb.text('Heading'))],
+      frontMatter: { title: 'Hello', tags: ['a', 'b'] },
+    })
+
+    const toml = `+++
+title = "Hello"
+owner = { name = "yubrot" }
++++
+`
+    expect(await translateDocument(toml)).toEqual({
+      blocks: [],
+      frontMatter: { title: 'Hello', owner: { name: 'yubrot' } },
+    })
+
+    // Front matter is recognized only at the beginning of the document
+    const notFrontMatter = `paragraph
+
+---
+
+title: Hello
+`
+    expect(await translateDocument(notFrontMatter)).toEqual({
+      blocks: [fb.paragraph(fb.text('paragraph')), fb.divider, fb.paragraph(fb.text('title: Hello'))],
+      frontMatter: undefined,
+    })
+
+    const invalid = `---
+title: [
+---
+`
+    expect(await translateDocument(invalid)).toEqual({ blocks: [], frontMatter: undefined })
+    const fallback = await translateDocument(invalid, { onInvalidFrontMatter: async () => ({}) })
+    expect(fallback.frontMatter).toEqual({})
+    expect(await translate(yaml, { onUnsupportedYamlNode: async node => [fb.code(node.value, 'yaml')] })).toEqual([
+      fb.code('title: Hello\ntags: [a, b]', 'yaml'),
+      fb.heading1(fb.text('Heading')),
+    ])
+  })
+
+  it('records source positions', async () => {
+    const input = `# Title
+
+Paragraph with ![image](https://example.com/image.png)
+
+- item
+  - nested
+
+---
+
+---
+
+<details>
+<summary>Summary</summary>
+
+body
+
+</details>
+`
+    const { blocks, position } = await translateWithPositions(input, context)
+    const lines = (blocks: fb.Block[]): unknown[] =>
+      blocks.map(b => [position(b)?.start.line, position(b)?.end.line, ...lines(b.children ?? [])])
+    expect(lines(blocks)).toEqual([
+      [1, 1],
+      [3, 3],
+      [3, 3],
+      [5, 6, [6, 6]],
+      [8, 8],
+      [10, 10],
+      [12, 17, [15, 15]],
+    ])
+  })
 })
@@ -1,7 +1,14 @@
 import { AsyncLocalStorage } from 'node:async_hooks'
 import type * as md from 'mdast'
 import * as fb from '@yubrot/notion-flexible-blocks'
-import { type HtmlTag, expandHtmlStructure as expandHtmlToFragments, parseMarkdownDocument } from './markdown.js'
+import {
+  type FrontMatter,
+  type HtmlTag,
+  type Position,
+  expandHtmlStructure as expandHtmlToFragments,
+  parseFrontMatter,
+  parseMarkdownDocument,
+} from './markdown.js'
 
 export interface Context {
   /**
@@ -22,14 +29,65 @@ export interface Context {
    */
   testImageFetchable: boolean
 
+  /**
+   * If true, the language of code blocks without a language is guessed from the file name (e.g. ` ```:main.py `),
+   * the shebang and characteristic keywords.
+   */
+  guessCodeLanguage: boolean
+
+  /**
+   * If true, `$...$` is translated to an inline equation as well as `$$...$$`.
+   * Off by default, since dollar signs in prose such as "$5 and $10" would be taken as an equation.
+   */
+  singleDollarTextMath: boolean
+
+  /**
+   * Paragraphs or HTML comments consisting only of one of these markers are translated to a table of contents.
+   * Whitespace is ignored when matching markers.
+   */
+  tableOfContentsMarkers: string[]
+
+  /**
+   * Breadcrumb version of `tableOfContentsMarkers`.
+   */
+  breadcrumbMarkers: string[]
+
+  /**
+   * How footnotes are translated.
+   * - `inline`: References are translated to `^id`, and definitions are translated where they appear.
+   * - `divider`, `heading`, `toggle`: Footnotes are numbered in order of first reference, and the definitions are
+   *   gathered at the end of the document, after a divider, under a heading or in a toggle titled `footnoteTitle`.
+   *   `create` links each reference to its note and each note back to its first reference.
+   */
+  footnotes: 'inline' | 'divider' | 'heading' | 'toggle'
+
+  /**
+   * The title of the footnote section.
+   */
+  footnoteTitle: string
+
   onInvalidLink: (fbs: fb.FlexibleBlock[], url: string, t: Translator) => Promise<fb.FlexibleBlock[]>
   onInvalidMention: (fbs: fb.FlexibleBlock[], mention: string, t: Translator) => Promise<fb.FlexibleBlock[]>
   onInvalidImage: (url: string, t: Translator) => Promise<fb.FlexibleBlock[]>
   onInvalidEmbed: (url: string, t: Translator) => Promise<fb.FlexibleBlock[]>
+  /**
+   * This callback is invoked when an equation is longer than Notion accepts. Equations cannot be split.
+   */
+  onInvalidEquation: (expression: string, t: Translator) => Promise<fb.FlexibleBlock[]>
+  /**
+   * This callback is invoked when the front matter cannot be parsed. The returned value is used as the front matter.
+   */
+  onInvalidFrontMatter: (node: md.Yaml | md.Toml, error: unknown, t: Translator) => Promise<FrontMatter | null>
 
   // You can override the behavior for unsupported nodes
+  // Front matter is parsed as metadata of the document, and is translated to blocks only by these callbacks
   onUnsupportedYamlNode: (node: md.Yaml, t: Translator) => Promise<fb.Block[]>
-  onUnsupportedDefinitionNode: (node: md.Definition, t: Translator) => Promise<fb.Block[]>
+  onUnsupportedTomlNode: (node: md.Toml, t: Translator) => Promise<fb.Block[]>
+  /**
+   * @deprecated Definitions are used to resolve references and are not translated by themselves.
+   */
+  onUnsupportedDefinitionNode?: (node: md.Definition, t: Translator) => Promise<fb.Block[]>
+  // These are invoked only for references that have no corresponding definition in the document
   onUnsupportedImageReferenceNode: (node: md.ImageReference, t: Translator) => Promise<fb.FlexibleBlock[]>
   onUnsupportedLinkReferenceNode: (node: md.LinkReference, t: Translator) => Promise<fb.FlexibleBlock[]>
 
@@ -53,6 +111,23 @@ export type MarkdownContent =
 
 export type HtmlTagTranslator = (src: HtmlTag<MarkdownContent>, t: Translator) => Promise<fb.FlexibleBlock[]>
 
+/**
+ * A rich text item that should link to a footnote, which can be resolved only after the blocks are created.
+ * `note` items are footnote references, and `reference` items are labels of notes.
+ */
+export interface FootnoteLink {
+  number: number
+  to: 'note' | 'reference'
+}
+
+/**
+ * A markdown document translated to Notion blocks, with its metadata.
+ */
+export interface TranslatedDocument {
+  blocks: fb.Block[]
+  frontMatter?: FrontMatter
+}
+
 /**
  * Translate a markdown document to Notion blocks.
  */
@@ -60,13 +135,64 @@ export async function translate(content: string, ctx?: Partial<Context>): Promis
   return await new Translator(ctx).document(content)
 }
 
+/**
+ * `translate` with the front matter of the document.
+ */
+export async function translateDocument(content: string, ctx?: Partial<Context>): Promise<TranslatedDocument> {
+  const t = new Translator(ctx)
+  const blocks = await t.document(content)
+  return { blocks, frontMatter: t.frontMatter() }
+}
+
+/**
+ * A markdown document translated to Notion blocks, with lookup functions for the source of each block.
+ */
+export interface SourceMappedDocument extends TranslatedDocument {
+  /**
+   * Get the position in the markdown document that the block is translated from.
+   */
+  position: (block: fb.Block) => Position | undefined
+  /**
+   * Get the footnote that the rich text item should link to.
+   */
+  footnoteLink: (item: fb.Inline['data']) => FootnoteLink | undefined
+}
+
+/**
+ * `translateDocument` with lookup functions for the source of each block.
+ */
+export async function translateWithPositions(content: string, ctx?: Partial<Context>): Promise<SourceMappedDocument> {
+  const t = new Translator(ctx)
+  const blocks = await t.document(content)
+  return {
+    blocks,
+    position: block => t.position(block),
+    footnoteLink: item => t.footnoteLink(item),
+    frontMatter: t.frontMatter(),
+  }
+}
+
 class Translator {
   private readonly ctx: Context
   private readonly asyncLocalStorage: AsyncLocalStorage<{ annotation?: fb.Inline['data']['annotations'] }>
+  private readonly positions: WeakMap<fb.Block, Position>
+  private readonly definitions: Map<string, md.Definition>
+  private readonly footnoteDefinitions: Map<string, md.FootnoteDefinition>
+  private readonly footnoteNumbers: Map<string, number>
+  private readonly numberedFootnotes: md.FootnoteDefinition[]
+  private readonly footnoteLinks: WeakMap<fb.Inline['data'], FootnoteLink>
+  private parsedFrontMatter: FrontMatter | undefined
 
   constructor(ctx?: Partial<Context>) {
     this.ctx = { ...defaultContext(), ...ctx }
     this.asyncLocalStorage = new AsyncLocalStorage()
+    this.positions = new WeakMap()
+    this.definitions = new Map()
+    this.footnoteDefinitions = new Map()
+    this.footnoteNumbers = new Map()
+    this.numberedFootnotes = []
+    this.footnoteLinks = new WeakMap()
+    this.parsedFrontMatter = undefined
   }
 
   get #annotation(): fb.Inline['data']['annotations'] | undefined {
@@ -80,23 +206,160 @@ class Translator {
   }
 
   async document(content: string): Promise<fb.Block[]> {
-    return fb.toBlocks(await this.contents(parseMarkdownDocument(content)))
+    this.#reset()
+    const src = parseMarkdownDocument(content, { singleDollarTextMath: this.ctx.singleDollarTextMath })
+    await this.#parseFrontMatter(src)
+    // Definitions are collected first, since references may precede their definitions
+    this.#collectDefinitions(src)
+    if (this.ctx.footnotes == 'inline') return fb.toBlocks(await this.contents(src))
+
+    this.#numberFootnotes(src)
+    return [...fb.toBlocks(await this.contents(src)), ...(await this.#footnoteSection())]
+  }
+
+  // Definitions, footnotes and front matter belong to each document. Positions and footnote links are keyed by the
+  // translated objects, which are not shared between documents
+  #reset() {
+    this.definitions.clear()
+    this.footnoteDefinitions.clear()
+    this.footnoteNumbers.clear()
+    this.numberedFootnotes.splice(0)
+    this.parsedFrontMatter = undefined
+  }
+
+  async #parseFrontMatter(src: md.RootContent[]) {
+    // Front matter is recognized only at the beginning of the document
+    const node = src[0]
+    if (node?.type != 'yaml' && node?.type != 'toml') return
+    try {
+      this.parsedFrontMatter = parseFrontMatter(node)
+    } catch (e) {
+      this.parsedFrontMatter = (await this.ctx.onInvalidFrontMatter(node, e, this)) ?? undefined
+    }
+  }
+
+  /**
+   * Get the front matter of the document. Undefined if the document has no front matter.
+   */
+  frontMatter(): FrontMatter | undefined {
+    return this.parsedFrontMatter
+  }
+
+  #collectDefinitions(src: md.Nodes[]) {
+    for (const node of src) {
+      // The first definition takes precedence, as in CommonMark
+      if (node.type == 'definition' && !this.definitions.has(node.identifier)) {
+        this.definitions.set(node.identifier, node)
+      }
+      if (node.type == 'footnoteDefinition' && !this.footnoteDefinitions.has(node.identifier)) {
+        this.footnoteDefinitions.set(node.identifier, node)
+      }
+      if ('children' in node) this.#collectDefinitions(node.children)
+    }
+  }
+
+  #numberFootnotes(src: md.Nodes[]) {
+    const visit = (nodes: md.Nodes[]) => {
+      for (const node of nodes) {
+        if (node.type == 'footnoteDefinition') continue
+        if (node.type == 'footnoteReference') this.#numberFootnote(node.identifier)
+        if ('children' in node) visit(node.children)
+      }
+    }
+    visit(src)
+    // References in notes are numbered after the references in the body. Notes added during iteration are visited too
+    for (const footnote of this.numberedFootnotes) visit(footnote.children)
+    // Unreferenced notes are kept at the end
+    for (const identifier of this.footnoteDefinitions.keys()) this.#numberFootnote(identifier)
+  }
+
+  #numberFootnote(identifier: string) {
+    const footnote = this.footnoteDefinitions.get(identifier)
+    if (!footnote || this.footnoteNumbers.has(identifier)) return
+    this.numberedFootnotes.push(footnote)
+    this.footnoteNumbers.set(identifier, this.numberedFootnotes.length)
+  }
+
+  async #footnoteSection(): Promise<fb.Block[]> {
+    if (!this.numberedFootnotes.length) return []
+
+    const notes = await Promise.all(
+      this.numberedFootnotes.map(async (src, i) => {
+        const [inlines, blocks] = fb.removeHeadingParagraph(fb.toBlocks(await this.contents(src.children)))
+        const label = this.#footnoteMarker(i + 1, 'reference')
+        const note = this.#recordPosition(src, [fb.paragraph([...label, ...fb.text(' '), ...inlines])])
+        return [...note, ...blocks]
+      }),
+    )
+    const title = fb.text(this.ctx.footnoteTitle)
+    switch (this.ctx.footnotes) {
+      case 'divider':
+        return [fb.divider, ...notes.flat()]
+      case 'heading':
+        return [fb.heading2(title), ...notes.flat()]
+      case 'toggle':
+        return [fb.toggle(title, notes.flat())]
+      case 'inline':
+        return []
+      default:
+        throw new Error(this.ctx.footnotes satisfies never)
+    }
+  }
+
+  #footnoteMarker(number: number, to: FootnoteLink['to']): fb.Inline[] {
+    const marker = fb.text(`[${number}]`, to == 'note' ? this.#annotation : undefined)
+    for (const inline of marker) this.footnoteLinks.set(inline.data, { number, to })
+    return marker
+  }
+
+  /**
+   * Get the footnote that the rich text item should link to.
+   */
+  footnoteLink(item: fb.Inline['data']): FootnoteLink | undefined {
+    return this.footnoteLinks.get(item)
   }
 
   async contents(src: MarkdownContent[]): Promise<fb.FlexibleBlock[]> {
-    const fbss = await Promise.all(expandHtmlToFragments(src).map(c => this.#content(c)))
+    const fbss = await Promise.all(
+      expandHtmlToFragments(src).map(async c => this.#recordPosition(c, await this.#content(c))),
+    )
     return fbss.flat()
   }
 
+  /**
+   * Get the position in the markdown document that the block is translated from.
+   */
+  position(block: fb.Block): Position | undefined {
+    return this.positions.get(block)
+  }
+
+  // Blocks are recorded by the innermost node they are translated from.
+  // Blocks that are already recorded elsewhere (e.g. `fb.divider`) are copied to have their own positions.
+  #recordPosition<T extends fb.FlexibleBlock>(src: MarkdownContent, fbs: T[]): T[] {
+    const position = src.position
+    if (!position) return fbs
+    return fbs.map(f => {
+      const b: fb.FlexibleBlock = f
+      if (b.type != 'block' || this.positions.has(b)) return f
+      const block = { ...b }
+      this.positions.set(block, position)
+      return block as T
+    })
+  }
+
   async #content(src: MarkdownContent): Promise<fb.FlexibleBlock[]> {
     switch (src.type) {
       case 'blockquote':
         return await this.#quote(src)
       case 'code':
-        return [fb.code(src.value, src.lang?.split(':', 2)[0])]
+        return this.#code(src)
+      case 'math':
+        return await this.equation(src.value, fb.equationBlock)
       case 'definition':
-        return await this.ctx.onUnsupportedDefinitionNode(src, this)
+        return []
       case 'footnoteDefinition':
+        // Footnotes are gathered into the footnote section unless they are inline
+        if (this.ctx.footnotes != 'inline') return []
         return await this.#footnoteDefinition(src)
       case 'heading':
         return await this.#heading(src)
@@ -105,7 +368,7 @@ class Translator {
       case 'listItem':
         return [await this.#listItem(src)]
       case 'paragraph':
-        return fb.toBlocks(await this.contents(src.children))
+        return this.#marker(src) ?? (await this.#paragraph(src))
       case 'thematicBreak':
         return [fb.divider]
       case 'table':
@@ -123,31 +386,69 @@ class Translator {
         return await this.#withAnnotation({ strikethrough: true }, () => this.contents(src.children))
       case 'inlineCode':
         return fb.text(src.value, { ...this.#annotation, code: true })
+      case 'inlineMath':
+        return await this.equation(src.value, expression => fb.equation(expression, this.#annotation))
       case 'break':
         return fb.newline
       case 'link':
         return await this.link(await this.contents(src.children), src.url)
       case 'image':
         return await this.image(src.url, { title: src.title || undefined })
-      case 'footnoteReference':
+      case 'footnoteReference': {
+        const number = this.ctx.footnotes != 'inline' && this.footnoteNumbers.get(src.identifier)
+        if (number) return this.#footnoteMarker(number, 'note')
         // Since there is no footnote in Notion, we use the text `^n` instead.
         return fb.text(`^${src.identifier}`, { code: true })
-      case 'imageReference':
-        return await this.ctx.onUnsupportedImageReferenceNode(src, this)
-      case 'linkReference':
-        return await this.ctx.onUnsupportedLinkReferenceNode(src, this)
+      }
+      case 'imageReference': {
+        const definition = this.definitions.get(src.identifier)
+        if (!definition) return await this.ctx.onUnsupportedImageReferenceNode(src, this)
+        return await this.image(definition.url, { title: definition.title || undefined })
+      }
+      case 'linkReference': {
+        const definition = this.definitions.get(src.identifier)
+        if (!definition) return await this.ctx.onUnsupportedLinkReferenceNode(src, this)
+        return await this.link(await this.contents(src.children), definition.url)
+      }
       case 'html':
         // Since this.#content is always called from this.contents, HTML tags have already been removed from it
+        if (src.value.startsWith('<!--')) return this.#marker(src) ?? []
         return fb.text(src.value, this.#annotation)
       case 'htmlTag':
         return await this.#htmlTag(src)
       case 'yaml':
         return await this.ctx.onUnsupportedYamlNode(src, this)
+      case 'toml':
+        return await this.ctx.onUnsupportedTomlNode(src, this)
       default:
         throw new Error(src satisfies never)
     }
   }
 
+  async #paragraph(src: md.Paragraph): Promise<fb.Block[]> {
+    const fbs = await this.contents(src.children)
+
+    // A standalone link to a page is translated to a link_to_page block
+    const link = src.children.length == 1 && ['link', 'linkReference'].includes(src.children[0].type)
+    if (link && fbs.length == 1) {
+      const data = fbs[0].data
+      if (data.type == 'mention' && 'page' in data.mention) return [fb.linkToPage({ page_id: data.mention.page.id })]
+    }
+
+    return fb.toBlocks(fbs)
+  }
+
+  #marker(src: md.Paragraph | md.Html): fb.Block[] | undefined {
+    if (src.type == 'paragraph' && !src.children.every(c => c.type == 'text')) return undefined
+    const value =
+      src.type == 'paragraph' ? src.children.map(c => (c.type == 'text' ? c.value : '')).join('') : src.value
+    const matches = (markers: string[]) => markers.some(m => m.replace(/\s+/g, '') == value.replace(/\s+/g, ''))
+
+    if (matches(this.ctx.tableOfContentsMarkers)) return [fb.tableOfContents()]
+    if (matches(this.ctx.breadcrumbMarkers)) return [fb.breadcrumb]
+    return undefined
+  }
+
   async #quote(src: md.Blockquote): Promise<fb.Block[]> {
     const [inlines, blocks] = fb.removeHeadingParagraph(fb.toBlocks(await this.contents(src.children)))
 
@@ -156,9 +457,7 @@ class Translator {
       for (const [prefix, style] of GITHUB_ALERT_PREFIX) {
         if (inlines[0].data.text.content.startsWith(prefix)) {
           inlines[0].data.text.content = inlines[0].data.text.content.slice(prefix.length)
-          const co = fb.callout(inlines, blocks)
-          if (co.data.type == 'callout') co.data.callout = { ...co.data.callout, ...style }
-          return [co]
+          return [fb.callout(inlines, blocks, style)]
         }
       }
     }
@@ -190,9 +489,14 @@ class Translator {
   async #listItem(src: md.ListItem, ordered?: boolean | null): Promise<fb.Block> {
     const args = fb.removeHeadingParagraph(fb.toBlocks(await this.contents(src.children)))
 
-    if (typeof src.checked == 'boolean') return fb.toDo(src.checked, ...args)
-    if (ordered) return fb.numberedListItem(...args)
-    return fb.bulletedListItem(...args)
+    const item =
+      typeof src.checked == 'boolean'
+        ? fb.toDo(src.checked, ...args)
+        : ordered
+          ? fb.numberedListItem(...args)
+          : fb.bulletedListItem(...args)
+    // List items are not translated through this.contents
+    return this.#recordPosition(src, [item])[0]
   }
 
   async #table(src: md.Table): Promise<fb.Block[]> {
@@ -232,6 +536,20 @@ class Translator {
     return [fb.mention(mention, this.#annotation)]
   }
 
+  async date(date: fb.DateMention): Promise<fb.FlexibleBlock[]> {
+    return [fb.dateMention(date, this.#annotation)]
+  }
+
+  /**
+   * Translate the contents with additional annotations, such as colors.
+   */
+  async annotatedContents(
+    annotations: fb.Inline['data']['annotations'],
+    src: MarkdownContent[],
+  ): Promise<fb.FlexibleBlock[]> {
+    return await this.#withAnnotation(annotations, () => this.contents(src))
+  }
+
   async image(url: string, options?: { title?: string; width?: number; height?: number }): Promise<fb.FlexibleBlock[]> {
     if (options?.title?.length) {
       // NOTE: Since current Notion API cannot specify width and height, we only use options.title
@@ -275,6 +593,19 @@ class Translator {
     return await fb.embed(embed, () => this.ctx.onInvalidEmbed(url, this))
   }
 
+  async equation(expression: string, build: (expression: string) => fb.FlexibleBlock): Promise<fb.FlexibleBlock[]> {
+    if (fb.MAX_EQUATION_LENGTH < expression.length) return await this.ctx.onInvalidEquation(expression, this)
+    return [build(expression)]
+  }
+
+  #code(src: md.Code): fb.Block[] {
+    // The info string may have a file name after the language, such as `ts:src/index.ts`
+    const [lang, ...filename] = (src.lang ?? '').split(':')
+    const caption = filename.join(':')
+    const language = lang || (this.ctx.guessCodeLanguage ? fb.guessLanguage(src.value, caption) : null)
+    return fb.codeBlocks(src.value, language, { caption: caption ? fb.text(caption) : undefined })
+  }
+
   async #htmlTag(src: HtmlTag<MarkdownContent>): Promise<fb.FlexibleBlock[]> {
     const translator = this.ctx.onHtmlTag[src.tag] || this.ctx.onUnsupportedHtmlTag
     return await translator(src, this)
@@ -286,12 +617,21 @@ export function defaultContext(): Context {
     mapLink: async url => url,
     mapImage: async url => url,
     testImageFetchable: false,
+    guessCodeLanguage: false,
+    singleDollarTextMath: false,
+    tableOfContentsMarkers: ['[[toc]]', '<!-- toc -->'],
+    breadcrumbMarkers: ['[[breadcrumb]]', '<!-- breadcrumb -->'],
+    footnotes: 'inline',
+    footnoteTitle: 'Notes',
     onInvalidLink: async fbs => fbs,
     onInvalidMention: async fbs => fbs,
     onInvalidImage: async url => fb.text(`Invalid image: ${url}`),
     onInvalidEmbed: async url => fb.text(`Invalid embed: ${url}`),
+    // The expression is kept as code, which can be split unlike equations
+    onInvalidEquation: async expression => fb.text(expression, { code: true }),
+    onInvalidFrontMatter: async () => null,
     onUnsupportedYamlNode: async () => [],
-    onUnsupportedDefinitionNode: async () => [],
+    onUnsupportedTomlNode: async () => [],
     onUnsupportedImageReferenceNode: async () => [],
     onUnsupportedLinkReferenceNode: async () => [],
 
@@ -303,6 +643,19 @@ export function defaultContext(): Context {
 export function defaultHtmlTagTranslators(): Record<string, HtmlTagTranslator> {
   const block: HtmlTagTranslator = async (src, t) => fb.toBlocks(await t.contents(src.children))
 
+  // <div class="columns"><div class="column">...</div><div class="column">...</div></div>
+  // Contents outside of <div class="column"> are put in columns of their own.
+  const columns: HtmlTagTranslator = async (src, t) => {
+    const contents = await Promise.all(
+      src.children.map(c => (c.type == 'htmlTag' && hasClass(c, 'column') ? block(c, t) : t.contents([c]))),
+    )
+    // Notion requires a column list to have at least 2 columns, and each column to have at least one block
+    const columns = contents.map(fbs => fb.toBlocks(fbs)).filter(blocks => blocks.length)
+    if (columns.length < 2) return columns.flat()
+
+    return [fb.columnList(columns.map(blocks => fb.column(blocks)))]
+  }
+
   return {
     br: async () => fb.newline,
     hr: async () => [fb.divider],
@@ -329,7 +682,10 @@ export function defaultHtmlTagTranslators(): Record<string, HtmlTagTranslator> {
       const height = src.attrs.height ? parseInt(src.attrs.height) : undefined
       return await t.embed(url, { width, height })
     },
-    div: block,
+    div: async (src, t) => {
+      if (hasClass(src, 'columns')) return await columns(src, t)
+      return await block(src, t)
+    },
     p: block,
     details: async (src, t) => {
       const maySummary = src.children[0]
@@ -342,17 +698,57 @@ export function defaultHtmlTagTranslators(): Record<string, HtmlTagTranslator> {
       }
       return []
     },
+    u: async (src, t) => await t.annotatedContents({ underline: true }, src.children),
+    mark: async (src, t) => {
+      const color = parseStyleColor(src.attrs.style ?? '', 'background-color') ?? 'yellow_background'
+      return await t.annotatedContents({ color }, src.children)
+    },
+    span: async (src, t) => {
+      const style = src.attrs.style ?? ''
+      const color = parseStyleColor(style, 'color') ?? parseStyleColor(style, 'background-color')
+      if (!color) return await t.contents(src.children)
+
+      return await t.annotatedContents({ color }, src.children)
+    },
+    time: async (src, t) => {
+      const start = src.attrs.datetime || undefined
+      if (!start) return await t.contents(src.children)
+
+      return await t.date({ start })
+    },
+    'template-button': async (src, t) => {
+      // Template blocks can no longer be created through the API, so the contents are kept in a toggle instead
+      const label = fb.text(src.attrs.label ?? '')
+      return [fb.toggle(label, fb.toBlocks(await t.contents(src.children)))]
+    },
   }
 }
 
-const GITHUB_ALERT_PREFIX: [string, Partial<(fb.Block['data'] & { type: 'callout' })['callout']>][] = [
-  ['[!NOTE]\n', { color: 'blue_background' }],
-  ['[!TIP]\n', { color: 'green_background' }],
-  ['[!IMPORTANT]\n', { color: 'purple_background' }],
-  ['[!WARNING]\n', { color: 'brown_background' }],
-  ['[!CAUTION]\n', { color: 'red_background' }],
+export const GITHUB_ALERT_PREFIX: [string, fb.CalloutOptions][] = [
+  ['[!NOTE]\n', { color: 'blue_background', icon: { emoji: 'ℹ️' } }],
+  ['[!TIP]\n', { color: 'green_background', icon: { emoji: '💡' } }],
+  ['[!IMPORTANT]\n', { color: 'purple_background', icon: { emoji: '❗' } }],
+  ['[!WARNING]\n', { color: 'brown_background', icon: { emoji: '⚠️' } }],
+  ['[!CAUTION]\n', { color: 'red_background', icon: { emoji: '🛑' } }],
 ]
 
+function hasClass(src: HtmlTag<MarkdownContent>, className: string): boolean {
+  return (src.attrs.class ?? '').split(/\s+/).includes(className)
+}
+
+const NOTION_COLORS = ['gray', 'brown', 'orange', 'yellow', 'green', 'blue', 'purple', 'pink', 'red'] as const
+
+// Only the colors supported by Notion are recognized, such as `color: red` and `background-color: yellow`
+function parseStyleColor(style: string, property: 'color' | 'background-color'): fb.TextColor | undefined {
+  for (const declaration of style.split(';')) {
+    const [name, value] = declaration.split(':', 2).map(s => s.trim().toLowerCase())
+    if (name != property && !(property == 'background-color' && name == 'background')) continue
+    const color = NOTION_COLORS.find(c => c == (value == 'grey' ? 'gray' : value))
+    if (color) return property == 'color' ? color : `${color}_background`
+  }
+  return undefined
+}
+
 function isObject<T>(value: T | null): value is T & object {
   return !!value && typeof value == 'object'
 }